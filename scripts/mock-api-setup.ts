@@ -0,0 +1,23 @@
+// Vitest global setup: runs scripts/mock-scenario-api.mjs on a free port for
+// the HTTP backend tests, which read its address with inject("mockApiUrl").
+import { spawn } from "node:child_process";
+import type { TestProject } from "vitest/node";
+
+export default async function setup(project: TestProject) {
+  const server = spawn(process.execPath, ["scripts/mock-scenario-api.mjs"], {
+    env: { ...process.env, PORT: "0" },
+    stdio: ["ignore", "pipe", "inherit"]
+  });
+  const port = await new Promise<string>((resolve, reject) => {
+    server.once("error", reject);
+    server.once("exit", (code) => reject(new Error(`Mock scenario API exited with ${code}`)));
+    server.stdout.on("data", (chunk: Buffer) => {
+      const match = /localhost:(\d+)/.exec(chunk.toString());
+      if (match) resolve(match[1]);
+    });
+  });
+  project.provide("mockApiUrl", `http://localhost:${port}`);
+  return () => {
+    server.kill();
+  };
+}
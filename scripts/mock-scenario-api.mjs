@@ -0,0 +1,91 @@
+// In-memory scenario server for trying out VITE_SCENARIO_API_URL locally:
+//   npm run mock-api
+//   VITE_SCENARIO_API_URL=http://localhost:8787 npm run dev
+// Data is lost when the process stops.
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8787);
+const scenarios = new Map();
+// id -> deletedAt of scenarios deleted here, so other clients drop their
+// copies instead of uploading them again
+const deletions = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET,PUT,DELETE,OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type"
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data || "null"));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const match = url.pathname.match(/^\/scenarios(?:\/([^/]+))?$/);
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (req.method === "GET" && url.pathname === "/deletions") {
+    return send(res, 200, [...deletions].map(([id, deletedAt]) => ({ id, deletedAt })));
+  }
+  if (!match) return send(res, 404, { error: "Not found" });
+  const id = match[1] && decodeURIComponent(match[1]);
+
+  if (req.method === "GET" && !id) return send(res, 200, [...scenarios.values()]);
+  if (req.method === "GET" && id) {
+    return scenarios.has(id) ? send(res, 200, scenarios.get(id)) : send(res, 404, { error: "Not found" });
+  }
+  if (req.method === "PUT" && id) {
+    let incoming;
+    try {
+      incoming = await readBody(req);
+    } catch {
+      return send(res, 400, { error: "Body must be JSON" });
+    }
+    if (!incoming || incoming.id !== id || typeof incoming.updatedAt !== "string") {
+      return send(res, 400, { error: "Body must be a scenario with this id and an updatedAt" });
+    }
+    const current = scenarios.get(id);
+    if (current && Date.parse(current.updatedAt) > Date.parse(incoming.updatedAt)) {
+      return send(res, 409, current);
+    }
+    const deletedAt = deletions.get(id);
+    if (deletedAt && Date.parse(deletedAt) >= Date.parse(incoming.updatedAt)) {
+      return send(res, 410, { id, deletedAt });
+    }
+    deletions.delete(id);
+    scenarios.set(id, incoming);
+    return send(res, 200, incoming);
+  }
+  if (req.method === "DELETE" && id) {
+    const deletedAt = url.searchParams.get("deletedAt") ?? new Date().toISOString();
+    if (Number.isNaN(Date.parse(deletedAt))) {
+      return send(res, 400, { error: "deletedAt must be a date" });
+    }
+    const current = scenarios.get(id);
+    if (current && Date.parse(current.updatedAt) > Date.parse(deletedAt)) {
+      return send(res, 409, current);
+    }
+    scenarios.delete(id);
+    deletions.set(id, deletedAt);
+    return send(res, 204);
+  }
+  return send(res, 405, { error: "Method not allowed" });
+});
+
+// PORT=0 picks a free port; the address line tells scripts which one
+server.listen(port, () => {
+  console.log(`Mock scenario API on http://localhost:${server.address().port}/scenarios`);
+});
@@ -1,17 +1,42 @@
 import type React from "react";
+import { useEffect } from "react";
 import { Sidebar } from "./layout/Sidebar";
-import { StepperHeader } from "./layout/StepperHeader";
 import { BroilerScenarioPage } from "./modules/broiler/BroilerScenarioPage";
+import { ComingSoonPage } from "./pages/ComingSoonPage";
+import { NotFoundPage } from "./pages/NotFoundPage";
+import { navigate, useRoute } from "./router";
+import { CAPACITY_PLANNING_PATH, matchRoute } from "./routes";
+import type { RouteMatch } from "./routes";
 
 export const App: React.FC = () => {
+  const route = useRoute();
+  const match: RouteMatch = route.malformed
+    ? { kind: "notFound" }
+    : matchRoute(route.segments);
+
+  useEffect(() => {
+    if (match.kind === "root") {
+      navigate(CAPACITY_PLANNING_PATH, {}, { replace: true });
+    }
+  }, [match.kind]);
+
+  const activePath =
+    match.kind === "capacityPlanning"
+      ? CAPACITY_PLANNING_PATH
+      : match.kind === "module"
+        ? match.module.path
+        : null;
+
   return (
     <div className="app-shell">
-      <Sidebar />
+      <Sidebar activePath={activePath} />
       <div className="app-main">
-        <StepperHeader />
-        <BroilerScenarioPage />
+        {match.kind === "capacityPlanning" && (
+          <BroilerScenarioPage scenarioId={match.scenarioId} />
+        )}
+        {match.kind === "module" && <ComingSoonPage title={match.module.label} />}
+        {match.kind === "notFound" && <NotFoundPage path={route.path} />}
       </div>
     </div>
   );
 };
-
@@ -1,33 +1,31 @@
 import type React from "react";
+import { buildHref } from "../router";
+import { moduleRoutes } from "../routes";
 
-const menuItems = [
-  "Overview",
-  "Daily Prediction",
-  "Generate Predictions",
-  "Harvest Planning",
-  "Capacity Planning"
-];
+interface SidebarProps {
+  activePath: string | null;
+}
 
-export const Sidebar: React.FC = () => {
+export const Sidebar: React.FC<SidebarProps> = ({ activePath }) => {
   return (
     <aside className="sidebar">
       <div className="sidebar-logo">LOGO</div>
       <nav className="sidebar-nav">
-        {menuItems.map((item) => {
-          const isActive = item === "Capacity Planning";
+        {moduleRoutes.map((item) => {
+          const isActive = item.path === activePath;
           return (
-            <button
-              key={item}
+            <a
+              key={item.path}
+              href={buildHref(item.path)}
               className={`sidebar-nav-item ${isActive ? "active" : ""}`}
-              type="button"
+              aria-current={isActive ? "page" : undefined}
             >
               <span className="sidebar-nav-icon" />
-              <span>{item}</span>
-            </button>
+              <span>{item.label}</span>
+            </a>
           );
         })}
       </nav>
     </aside>
   );
 };
-
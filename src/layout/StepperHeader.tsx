@@ -5,34 +5,42 @@ interface Step {
   subtitle: string;
 }
 
-const steps: Step[] = [
-  { label: "Broiler", subtitle: "Configure" },
-  { label: "Select Scenario", subtitle: "Compare" },
-  { label: "Assumptions / Market", subtitle: "Configure" },
-  { label: "Save Plan", subtitle: "Save or discard" }
-];
-
-export const StepperHeader: React.FC = () => {
-  const activeIndex = 0;
+interface StepperHeaderProps {
+  steps: Step[];
+  activeIndex: number;
+  enabled: boolean[];
+  onSelect: (index: number) => void;
+}
 
+export const StepperHeader: React.FC<StepperHeaderProps> = ({
+  steps,
+  activeIndex,
+  enabled,
+  onSelect
+}) => {
   return (
     <header className="stepper-header">
       {steps.map((step, index) => {
         const isActive = index === activeIndex;
+        const isEnabled = enabled[index] ?? false;
         return (
-          <div
+          <button
             key={step.label}
-            className={`stepper-step ${isActive ? "active" : "disabled"}`}
+            type="button"
+            className={`stepper-step ${
+              isActive ? "active" : isEnabled ? "" : "disabled"
+            } ${index < activeIndex ? "done" : ""}`}
+            disabled={!isEnabled}
+            onClick={() => onSelect(index)}
           >
             <div className="stepper-circle">{index + 1}</div>
             <div className="stepper-text">
               <div className="stepper-label">{step.label}</div>
               <div className="stepper-subtitle">{step.subtitle}</div>
             </div>
-          </div>
+          </button>
         );
       })}
     </header>
   );
 };
-
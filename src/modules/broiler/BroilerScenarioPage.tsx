@@ -1,21 +1,77 @@
 import type React from "react";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Card } from "../../components/Card";
 import { ToggleSwitch } from "../../components/ToggleSwitch";
+import { StepperHeader } from "../../layout/StepperHeader";
+import { navigate, useRoute } from "../../router";
+import { CAPACITY_PLANNING_PATH, scenarioPath } from "../../routes";
 import {
+  broilerOutputOptions,
   computeBroilerResults,
+  diagnosticsForInput,
+  explainBlankParameter,
   formatNumber,
-  buildFarmScenarios
+  buildFarmScenarios,
+  expandFarmScenarioRow,
+  horizonUnitLabel
 } from "./calculations";
+import type { BroilerOutputKey, FarmsScenarioRow } from "./calculations";
+import { BundleImportPreview } from "./BundleImportPreview";
+import { CalendarPanel } from "./CalendarPanel";
+import { buildScenarioBundle, previewScenarioBundle, resolveBundleImport } from "./bundle";
+import type { BundlePreview, CollisionPolicy } from "./bundle";
+import { DiagnosticsBanner } from "./DiagnosticsBanner";
+import { GoalSeekPanel } from "./GoalSeekPanel";
+import { derivedGrowthInput } from "./growth";
+import { GrowthCurvePanel } from "./GrowthCurvePanel";
+import { NumberInput } from "./NumberInput";
+import { numberLocaleOptions, resolveNumberLocale, useNumberLocale } from "./numberLocale";
+import { MonteCarloPanel } from "./MonteCarloPanel";
+import { ScenarioComparison } from "./ScenarioComparison";
+import { ScenarioLibrary } from "./ScenarioLibrary";
+import { RevisionHistory } from "./RevisionHistory";
+import { ScenarioReview } from "./ScenarioReview";
+import { StockingDensityPanel } from "./StockingDensityPanel";
+import { TornadoChart } from "./TornadoChart";
+import { createLocalBackend, configuredRemoteBackend } from "./persistence";
+import { allocatePortfolio } from "./portfolio";
+import { PortfolioPanel } from "./PortfolioPanel";
+import { withRevision } from "./revisions";
+import { downloadPlanningReport } from "./report";
+import type { ReportValueRow } from "./report";
+import { runSensitivity } from "./sensitivity";
+import { SHARE_QUERY_KEY, buildShareLink, decodeShareToken } from "./share";
+import { SyncBadge } from "./SyncBadge";
+import { useScenarioSync } from "./sync";
+import { useUndoShortcuts, useUndoableScenario } from "./undo";
+import { fieldLabels, validateCompleteScenario, validateScenario } from "./validation";
+import { downloadScenarioWorkbook, importScenarioFromWorkbook } from "./workbook";
+import {
+  blockingErrors,
+  enabledSteps,
+  useWizardStep,
+  wizardSteps
+} from "./wizard";
+import {
+  clearQuarantine,
+  deleteScenario,
+  duplicateScenario,
+  loadQuarantine,
+  loadScenarios,
+  newerStoredSchemaVersion,
+  upsertScenario
+} from "./storage";
+import type { QuarantinedRecord } from "./storage";
 import type {
   BroilerScenario,
+  BroilerHorizon,
   BroilerInputs,
   BroilerConfig,
+  PortfolioFarm,
+  ScenarioRevision,
   UnitsModeKey
 } from "./types";
 
-const STORAGE_KEY = "broiler-scenarios-v1";
-
 const defaultInputs: BroilerInputs = {
   sn1TargetBroilerMeat: null,
   sn2HarvestBirdAvgWeight: null,
@@ -24,7 +80,10 @@ const defaultInputs: BroilerInputs = {
   sn10FarmCapacity: null,
   sn11NumberOfHouses: null,
   sn12HouseArea: null,
-  yieldPercent: 72
+  yieldPercent: 72,
+  growOutDays: null,
+  cleanoutDays: null,
+  downtimeDays: null
 };
 
 const defaultConfig: BroilerConfig = {
@@ -32,7 +91,11 @@ const defaultConfig: BroilerConfig = {
   useYield: false,
   useFullCyclesOnly: false,
   useLeapYearCycles: false,
-  mortalityAsPercent: true
+  mortalityAsPercent: true,
+  composeCycleTime: false,
+  densityLimitKgPerM2: null,
+  growthCurve: null,
+  growthDerive: "age"
 };
 
 function createEmptyScenario(): BroilerScenario {
@@ -42,139 +105,442 @@ function createEmptyScenario(): BroilerScenario {
     description: "",
     timeHorizon: "year",
     createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
     inputs: { ...defaultInputs },
-    config: { ...defaultConfig }
+    config: { ...defaultConfig },
+    revisions: [],
+    farms: []
   };
 }
 
 function loadLatestScenario(): BroilerScenario {
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return createEmptyScenario();
-    const parsed: BroilerScenario[] = JSON.parse(raw);
-    if (!Array.isArray(parsed) || parsed.length === 0) {
-      return createEmptyScenario();
-    }
-    return parsed[parsed.length - 1];
-  } catch {
-    return createEmptyScenario();
-  }
+  const list = loadScenarios();
+  return list.length === 0 ? createEmptyScenario() : list[list.length - 1];
 }
 
-function persistScenario(scenario: BroilerScenario) {
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    const list: BroilerScenario[] = raw ? JSON.parse(raw) : [];
-    const updated = [...list, scenario];
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-  } catch {
-    // fail silently for now, ready for API integration later
-  }
+// How numbers are written to the CSV download
+type CsvNumberMode = "formatted" | "raw" | "both";
+
+interface BroilerScenarioPageProps {
+  // Saved scenario addressed by the URL, if any
+  scenarioId?: string;
 }
 
-export const BroilerScenarioPage: React.FC = () => {
-  const [scenario, setScenario] = useState<BroilerScenario>(() =>
-    typeof window === "undefined" ? createEmptyScenario() : loadLatestScenario()
+export const BroilerScenarioPage: React.FC<BroilerScenarioPageProps> = ({
+  scenarioId
+}) => {
+  const editor = useUndoableScenario(() => {
+    if (typeof window === "undefined") return createEmptyScenario();
+    const addressed = scenarioId
+      ? loadScenarios().find((s) => s.id === scenarioId)
+      : undefined;
+    return addressed ?? loadLatestScenario();
+  });
+  const scenario = editor.scenario;
+  const [library, setLibrary] = useState<BroilerScenario[]>(() =>
+    typeof window === "undefined" ? [] : loadScenarios()
+  );
+  // Read after the library so records set aside while loading are included
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>(() =>
+    typeof window === "undefined" ? [] : loadQuarantine()
+  );
+  const [newerSchemaVersion] = useState<number | null>(() =>
+    typeof window === "undefined" ? null : newerStoredSchemaVersion()
   );
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
-  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [revisionNote, setRevisionNote] = useState("");
+  const [bundleImport, setBundleImport] = useState<{
+    fileName: string;
+    preview: BundlePreview;
+  } | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  // Scenario opened from a shared link that has not been saved yet
+  const [sharedId, setSharedId] = useState<string | null>(null);
+  const localBackend = useMemo(() => createLocalBackend(), []);
+  const remoteBackend = useMemo(() => configuredRemoteBackend(), []);
+  const sync = useScenarioSync(localBackend, remoteBackend, setLibrary);
   const [activeScenarioView, setActiveScenarioView] = useState<
     "base" | "rounded" | "floored" | "combined"
   >("combined");
   const [activeResultsTab, setActiveResultsTab] = useState<
-    "fullParameters" | "summary"
+    "fullParameters" | "summary" | "sensitivity"
   >("fullParameters");
+  const [sensitivityOutput, setSensitivityOutput] =
+    useState<BroilerOutputKey>("sn14NumberOfFarms");
+  const [sensitivityRange, setSensitivityRange] = useState<number>(10);
+  const [csvNumbers, setCsvNumbers] = useState<CsvNumberMode>("both");
+  const [numberLocale, setNumberLocale] = useNumberLocale();
+  const [activeStep, setActiveStep] = useWizardStep();
   const [lastUpdatedAt, setLastUpdatedAt] = useState<string>(() =>
     new Date().toLocaleString()
   );
 
+  const savedCopy = library.find((s) => s.id === scenario.id);
+
+  useUndoShortcuts(editor.undo, editor.redo);
+
+  // Opens a shared link in the editor, then drops the token from the URL so
+  // moving between steps or reloading does not open it again.
+  const shareToken = useRoute().query.get(SHARE_QUERY_KEY);
+  useEffect(() => {
+    if (!shareToken) return;
+    const decoded = decodeShareToken(shareToken, createEmptyScenario());
+    if (decoded.ok) {
+      editor.reset(decoded.scenario);
+      setSharedId(decoded.scenario.id);
+      setShareError(null);
+      setValidationErrors({});
+    } else {
+      setShareError(decoded.reason);
+    }
+    navigate(CAPACITY_PLANNING_PATH, { step: "broiler" }, { replace: true });
+  }, [shareToken, editor.reset]);
+
+  const missingScenarioId =
+    scenarioId != null && !library.some((s) => s.id === scenarioId)
+      ? scenarioId
+      : null;
+
+  // Follow the URL when it points at a different saved scenario
+  useEffect(() => {
+    if (scenarioId == null) return;
+    const addressed = library.find((s) => s.id === scenarioId);
+    if (addressed) {
+      editor.reset((prev) => (prev.id === addressed.id ? prev : addressed));
+    }
+  }, [scenarioId, library, editor.reset]);
+
+  const showScenarioInRoute = (id: string | null, options: { replace?: boolean } = {}) => {
+    navigate(
+      id ? scenarioPath(id) : CAPACITY_PLANNING_PATH,
+      { step: activeStep },
+      options
+    );
+  };
+
+  const horizon = useMemo<BroilerHorizon>(
+    () => ({ timeHorizon: scenario.timeHorizon, customDays: scenario.customDays }),
+    [scenario.timeHorizon, scenario.customDays]
+  );
+  const periodLabel = horizonUnitLabel(horizon);
+
+  // Diagnostic messages hold formatted numbers, so a new locale re-runs the model
+  const locale = resolveNumberLocale(numberLocale);
   const results = useMemo(
-    () => computeBroilerResults(scenario.inputs, scenario.config),
-    [scenario.inputs, scenario.config]
+    () => computeBroilerResults(scenario.inputs, scenario.config, horizon, locale),
+    [scenario.inputs, scenario.config, horizon, locale]
   );
 
   useEffect(() => {
     setLastUpdatedAt(new Date().toLocaleString());
-  }, [scenario.inputs, scenario.config]);
+  }, [scenario.inputs, scenario.config, horizon]);
 
   useEffect(() => {
-    if (saveMessage) {
-      const timeout = setTimeout(() => setSaveMessage(null), 2500);
+    if (notice) {
+      const timeout = setTimeout(() => setNotice(null), 2500);
       return () => clearTimeout(timeout);
     }
     return undefined;
-  }, [saveMessage]);
+  }, [notice]);
 
-  const handleInputChange = (key: keyof BroilerInputs, value: string) => {
-    const numeric = value === "" ? null : Number(value);
-    setScenario((prev) => ({
-      ...prev,
-      inputs: { ...prev.inputs, [key]: Number.isNaN(numeric) ? null : numeric }
-    }));
+  const completeErrors = useMemo(
+    () => validateCompleteScenario(scenario),
+    [scenario]
+  );
+  const stepEnabled = useMemo(() => enabledSteps(completeErrors), [completeErrors]);
+  const activeStepIndex = Math.max(
+    0,
+    wizardSteps.findIndex((step) => step.key === activeStep)
+  );
+  const activeBlockingErrors = blockingErrors(activeStepIndex, completeErrors);
+
+  // Deep links to a step whose prerequisites are not met fall back to the
+  // furthest step that can be reached. Only checked when the step changes so
+  // edits on the current step never move the user elsewhere.
+  const checkedStepRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (checkedStepRef.current === activeStepIndex) return;
+    checkedStepRef.current = activeStepIndex;
+    if (!stepEnabled[activeStepIndex]) {
+      const lastReachable = stepEnabled.lastIndexOf(true);
+      setActiveStep(wizardSteps[Math.max(0, lastReachable)].key, { replace: true });
+    }
+  }, [stepEnabled, activeStepIndex, setActiveStep]);
+
+  const handleInputChange = (key: keyof BroilerInputs, value: number | null) => {
+    editor.edit(
+      (prev) => ({
+        ...prev,
+        inputs: { ...prev.inputs, [key]: value }
+      }),
+      key
+    );
   };
 
   const handleConfigChange = (patch: Partial<BroilerConfig>) => {
-    setScenario((prev) => ({
+    editor.edit((prev) => ({
       ...prev,
       config: { ...prev.config, ...patch }
     }));
   };
 
+  const handleFarmChange = (id: string, patch: Partial<PortfolioFarm>) => {
+    editor.edit(
+      (prev) => ({
+        ...prev,
+        farms: prev.farms.map((farm) => (farm.id === id ? { ...farm, ...patch } : farm))
+      }),
+      `farm-${id}-${Object.keys(patch).join()}`
+    );
+  };
+
   const handleScenarioMetaChange = (field: "name" | "description" | "timeHorizon", value: string) => {
-    setScenario((prev) => ({
-      ...prev,
-      [field]: field === "timeHorizon" ? value : value
-    }));
+    editor.edit(
+      (prev) => ({
+        ...prev,
+        [field]: field === "timeHorizon" ? value : value
+      }),
+      field === "timeHorizon" ? undefined : field
+    );
   };
 
   const validate = (): boolean => {
-    const errors: Record<string, string> = {};
-    const i = scenario.inputs;
-    const c = scenario.config;
+    const errors = validateScenario(scenario);
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleStepSelect = (index: number) => {
+    if (!stepEnabled[index]) return;
+    setValidationErrors({});
+    setActiveStep(wizardSteps[index].key);
+  };
 
-    if (!scenario.name.trim()) {
-      errors.scenarioName = "Scenario name is required.";
+  const handleNextStep = () => {
+    const blocking = blockingErrors(activeStepIndex, completeErrors);
+    if (blocking.length > 0) {
+      setValidationErrors(completeErrors);
+      return;
     }
+    handleStepSelect(activeStepIndex + 1);
+  };
 
-    if (i.sn4PlannedMortality != null) {
-      if (c.mortalityAsPercent) {
-        if (i.sn4PlannedMortality < 0 || i.sn4PlannedMortality >= 100) {
-          errors.sn4PlannedMortality =
-            "Mortality must be between 0 and below 100 when using percent mode.";
-        }
-      } else if (i.sn4PlannedMortality < 0 || i.sn4PlannedMortality >= 1) {
-        errors.sn4PlannedMortality =
-          "Mortality must be between 0 and below 1 when using fraction mode.";
-      }
+  const handleDiscardChanges = () => {
+    const saved = library.find((s) => s.id === scenario.id);
+    // Discarding edits to a saved scenario can itself be undone
+    if (saved) editor.edit(saved);
+    else editor.reset(createEmptyScenario());
+    setValidationErrors({});
+    setActiveStep("broiler");
+  };
+
+  const handleSaveScenario = () => {
+    if (!validate()) {
+      setNotice("Please resolve validation issues before saving.");
+      return;
+    }
+    const saved = withRevision(scenario, revisionNote);
+    editor.replace(saved);
+    setLibrary(upsertScenario(saved));
+    sync.queueSave(saved);
+    setRevisionNote("");
+    if (scenarioId !== saved.id) {
+      showScenarioInRoute(saved.id, { replace: true });
     }
+  };
 
-    (["sn6CycleTimeDays", "sn10FarmCapacity", "sn11NumberOfHouses", "sn12HouseArea"] as const).forEach(
-      (key) => {
-        const value = i[key];
-        if (value != null && value <= 0) {
-          errors[key] = "Value must be greater than zero.";
-        }
-      }
+  const handleOpenScenario = (saved: BroilerScenario) => {
+    editor.reset(saved);
+    setValidationErrors({});
+    showScenarioInRoute(saved.id);
+  };
+
+  const handleNewScenario = () => {
+    editor.reset(createEmptyScenario());
+    setValidationErrors({});
+    showScenarioInRoute(null);
+  };
+
+  const handleImportWorkbook = async (file: File) => {
+    try {
+      const imported = importScenarioFromWorkbook(
+        await file.arrayBuffer(),
+        file.name.replace(/\.[^.]+$/, ""),
+        createEmptyScenario()
+      );
+      editor.reset(imported.scenario);
+      setValidationErrors({});
+      navigate(CAPACITY_PLANNING_PATH, { step: "broiler" });
+      setNotice(
+        [
+          `Imported "${imported.scenario.name}" from sheet "${imported.sheetName}". Save it to keep it.`,
+          ...imported.warnings
+        ].join(" ")
+      );
+    } catch (error) {
+      window.alert(
+        `Could not import ${file.name}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+
+  const handleImportBundle = async (file: File) => {
+    try {
+      setBundleImport({
+        fileName: file.name,
+        preview: previewScenarioBundle(await file.text(), library)
+      });
+    } catch (error) {
+      window.alert(
+        `Could not import ${file.name}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+
+  const handleConfirmBundleImport = (policy: CollisionPolicy) => {
+    if (!bundleImport) return;
+    const { scenarios, skipped } = resolveBundleImport(
+      bundleImport.preview.entries,
+      policy
     );
+    scenarios.forEach((imported) => {
+      upsertScenario(imported);
+      sync.queueSave(imported);
+    });
+    setLibrary(loadScenarios());
+    setBundleImport(null);
+    setNotice(
+      `Imported ${scenarios.length} ${scenarios.length === 1 ? "scenario" : "scenarios"}${
+        skipped > 0 ? `, skipped ${skipped} already in the library` : ""
+      }.`
+    );
+  };
 
-    if (c.useYield) {
-      if (i.yieldPercent == null || i.yieldPercent <= 0 || i.yieldPercent > 100) {
-        errors.yieldPercent = "Yield% must be between 0 and 100.";
-      }
+  const handleExportBundle = (ids: string[]) => {
+    const selected = library.filter((s) => ids.includes(s.id));
+    const blob = new Blob([JSON.stringify(buildScenarioBundle(selected), null, 2)], {
+      type: "application/json"
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `broiler_scenarios_${fileTimestamp()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadQuarantine = () => {
+    const blob = new Blob([JSON.stringify(quarantined, null, 2)], {
+      type: "application/json"
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "broiler_scenarios_quarantine.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearQuarantine = () => {
+    if (!window.confirm("Discard the scenarios that could not be loaded?")) return;
+    clearQuarantine();
+    setQuarantined([]);
+  };
+
+  const handleRenameScenario = (id: string, name: string) => {
+    const target = library.find((s) => s.id === id);
+    if (!target) return;
+    const renamed = { ...target, name, updatedAt: new Date().toISOString() };
+    setLibrary(upsertScenario(renamed));
+    sync.queueSave(renamed);
+    if (id === scenario.id) {
+      editor.replace((prev) => ({ ...prev, name }));
     }
+  };
 
-    setValidationErrors(errors);
-    return Object.keys(errors).length === 0;
+  const handleDuplicateScenario = (id: string) => {
+    const copy = duplicateScenario(id);
+    if (copy) {
+      setLibrary(loadScenarios());
+      sync.queueSave(copy);
+      setNotice(`Duplicated as "${copy.name}".`);
+    }
   };
 
-  const handleSaveScenario = () => {
-    if (!validate()) {
-      setSaveMessage("Please resolve validation issues before saving.");
+  const handleOverwriteScenario = (id: string) => {
+    const target = library.find((s) => s.id === id);
+    if (!target) return;
+    if (!window.confirm(`Replace "${target.name}" with the current editor contents?`)) {
+      return;
+    }
+    // The target keeps its history; what it held before stays restorable
+    const overwritten = withRevision(
+      {
+        ...scenario,
+        id: target.id,
+        createdAt: target.createdAt,
+        revisions: target.revisions
+      },
+      `Overwritten from "${scenario.name || "Untitled scenario"}"`
+    );
+    setLibrary(upsertScenario(overwritten));
+    sync.queueSave(overwritten);
+    editor.replace(overwritten);
+    showScenarioInRoute(overwritten.id);
+    setNotice(`Scenario "${overwritten.name}" overwritten.`);
+  };
+
+  const handleRestoreRevision = (revision: ScenarioRevision) => {
+    if (!savedCopy) return;
+    const savedAt = new Date(revision.savedAt).toLocaleString();
+    if (
+      !window.confirm(
+        `Restore the assumptions saved on ${savedAt}? Unsaved edits will be lost.`
+      )
+    ) {
       return;
     }
-    const scenarioToSave = { ...scenario, id: crypto.randomUUID() };
-    persistScenario(scenarioToSave);
-    setSaveMessage("Scenario saved locally. Ready for API sync later.");
+    const restored = withRevision(
+      {
+        ...savedCopy,
+        timeHorizon: revision.timeHorizon,
+        customDays: revision.customDays,
+        inputs: { ...revision.inputs },
+        config: { ...revision.config }
+      },
+      `Restored revision from ${savedAt}`
+    );
+    setLibrary(upsertScenario(restored));
+    sync.queueSave(restored);
+    editor.reset(restored);
+    setValidationErrors({});
+    setNotice(`Restored the revision from ${savedAt}.`);
+  };
+
+  const handleCopyShareLink = async () => {
+    const link = buildShareLink(scenario);
+    try {
+      await navigator.clipboard.writeText(link);
+      setNotice("Link copied. Anyone with it can open these assumptions.");
+    } catch {
+      // clipboard access denied or unavailable; let the user copy it by hand
+      window.prompt("Copy this link to share the scenario:", link);
+    }
+  };
+
+  const handleDeleteScenario = (id: string) => {
+    const target = library.find((s) => s.id === id);
+    if (!target || !window.confirm(`Delete "${target.name}"?`)) return;
+    setLibrary(deleteScenario(id));
+    sync.queueDelete(id);
+    if (id === scenarioId) {
+      showScenarioInRoute(null, { replace: true });
+    }
   };
 
   const unitsModeLabel = (mode: UnitsModeKey): string => {
@@ -190,6 +556,18 @@ export const BroilerScenarioPage: React.FC = () => {
     }
   };
 
+  // Validation messages take precedence; otherwise show the first calculation
+  // diagnostic that names this field.
+  const fieldIssue = (key: keyof BroilerInputs | "customDays") => {
+    const flagged = diagnosticsForInput(results, key);
+    return {
+      className: `form-field ${flagged.length > 0 ? "field-flagged" : ""}`,
+      message: validationErrors[key] ?? flagged[0]?.message
+    };
+  };
+
+  const blankNotes = results.diagnostics.filter((d) => d.outputs.length > 0);
+
   const farmsRequiredRounded =
     results.sn14NumberOfFarms != null
       ? Math.ceil(results.sn14NumberOfFarms)
@@ -204,90 +582,10 @@ export const BroilerScenarioPage: React.FC = () => {
   const roundedScenario = farmScenarios[1];
   const flooredScenario = farmScenarios[2];
 
-  const mortRaw = scenario.inputs.sn4PlannedMortality;
-  const mortalityFraction =
-    mortRaw == null
-      ? null
-      : scenario.config.mortalityAsPercent
-        ? mortRaw / 100
-        : mortRaw;
-
-  const sn7 = results.sn7CyclesPerYear ?? null;
-
   const buildCalcForScenario = useMemo(() => {
-    return (
-      scenarioRow:
-        | typeof baseScenario
-        | typeof roundedScenario
-        | typeof flooredScenario
-    ) => {
-      const sn1 = scenarioRow?.sn1TargetBroilerMeat ?? null;
-      const sn3 = scenarioRow?.sn3HarvestBirdsNumber ?? null;
-      const sn9 = scenarioRow?.sn9PlacementPerCycle ?? null;
-      const farms = scenarioRow?.farms ?? null;
-
-      let sn5: number | null = null;
-      let sn8: number | null = null;
-      let sn13: number | null = null;
-      let sn14Local: number | null = null;
-
-      if (
-        sn3 != null &&
-        mortalityFraction != null &&
-        mortalityFraction >= 0 &&
-        mortalityFraction < 1
-      ) {
-        const denom = 1 - mortalityFraction;
-        sn5 = denom === 0 ? null : sn3 / denom;
-      }
-
-      if (sn3 != null && sn7 != null && sn7 > 0) {
-        sn8 = sn3 / sn7;
-      }
-
-      if (
-        scenario.inputs.sn10FarmCapacity != null &&
-        scenario.inputs.sn11NumberOfHouses != null &&
-        scenario.inputs.sn12HouseArea != null
-      ) {
-        const denom =
-          scenario.inputs.sn11NumberOfHouses * scenario.inputs.sn12HouseArea;
-        sn13 =
-          denom > 0 ? scenario.inputs.sn10FarmCapacity / denom : null;
-      }
-
-      if (sn9 != null && scenario.inputs.sn10FarmCapacity != null) {
-        const cap = scenario.inputs.sn10FarmCapacity;
-        sn14Local = cap > 0 ? sn9 / cap : null;
-      } else if (farms != null) {
-        sn14Local = farms;
-      }
-
-      return {
-        sn1,
-        sn3,
-        sn4: scenario.inputs.sn4PlannedMortality,
-        sn6: scenario.inputs.sn6CycleTimeDays,
-        sn10: scenario.inputs.sn10FarmCapacity,
-        sn11: scenario.inputs.sn11NumberOfHouses,
-        sn12: scenario.inputs.sn12HouseArea,
-        sn5,
-        sn7,
-        sn8,
-        sn9,
-        sn13,
-        sn14: sn14Local
-      };
-    };
-  }, [
-    scenario.inputs.sn10FarmCapacity,
-    scenario.inputs.sn11NumberOfHouses,
-    scenario.inputs.sn12HouseArea,
-    scenario.inputs.sn4PlannedMortality,
-    scenario.inputs.sn6CycleTimeDays,
-    mortalityFraction,
-    sn7
-  ]);
+    return (scenarioRow: FarmsScenarioRow | undefined) =>
+      expandFarmScenarioRow(scenarioRow, scenario.inputs, scenario.config, results);
+  }, [scenario.inputs, scenario.config, results]);
 
   const baseVals = useMemo(
     () => buildCalcForScenario(baseScenario),
@@ -302,14 +600,17 @@ export const BroilerScenarioPage: React.FC = () => {
     [buildCalcForScenario, flooredScenario]
   );
 
-  const uomForSn1 =
-    scenario.config.unitsMode === "kgPerYear_kgPerBird" ? "kg/year" : "tons/year";
+  const sn1Mass = scenario.config.unitsMode === "kgPerYear_kgPerBird" ? "kg" : "tons";
+  // The SN1 input stays annual; only the horizon totals follow the period
+  const sn1InputUnit = `${sn1Mass}/year`;
+  const uomForSn1 = `${sn1Mass}/${periodLabel}`;
 
   const fullParametersRows = useMemo(() => {
     const common = {
-      sn2: scenario.inputs.sn2HarvestBirdAvgWeight,
+      // The weight on the growth curve when one is linked
+      sn2: results.growthPoint?.weightKg ?? scenario.inputs.sn2HarvestBirdAvgWeight,
       sn4: scenario.inputs.sn4PlannedMortality,
-      sn6: scenario.inputs.sn6CycleTimeDays,
+      sn6: results.sn6CycleTimeDays ?? null,
       sn10: scenario.inputs.sn10FarmCapacity,
       sn11: scenario.inputs.sn11NumberOfHouses,
       sn12: scenario.inputs.sn12HouseArea
@@ -327,9 +628,13 @@ export const BroilerScenarioPage: React.FC = () => {
       { key: "sn10", label: "Broiler Farm Capacity", uom: "birds/cycle" },
       { key: "sn11", label: "Broiler No. of Houses", uom: "houses" },
       { key: "sn12", label: "Broiler House Area", uom: "m²" },
-      { key: "sn3", label: "Harvest Birds Number", uom: "birds/year" },
-      { key: "sn5", label: "Overall Broiler Placement", uom: "birds" },
-      { key: "sn7", label: "Broiler Cycles Per Year", uom: "cycles/year" },
+      { key: "sn3", label: "Harvest Birds Number", uom: `birds/${periodLabel}` },
+      { key: "sn5", label: "Overall Broiler Placement", uom: `birds/${periodLabel}` },
+      {
+        key: "sn7",
+        label: scenario.timeHorizon === "year" ? "Broiler Cycles Per Year" : "Broiler Cycles In Horizon",
+        uom: `cycles/${periodLabel}`
+      },
       { key: "sn8", label: "Broiler Harvest Per Cycle", uom: "birds/cycle" },
       { key: "sn9", label: "Broiler Placement Per Cycle", uom: "birds/cycle" },
       { key: "sn13", label: "Broiler Density", uom: "birds/m²" },
@@ -348,43 +653,174 @@ export const BroilerScenarioPage: React.FC = () => {
       return (source as Record<string, number | null | undefined>)[key] ?? null;
     };
 
-    return rows.map((r) => ({
-      ...r,
-      base: getValue("base", r.key),
-      rounded: getValue("rounded", r.key),
-      floored: getValue("floored", r.key)
-    }));
+    const explain = (
+      value: number | null,
+      key: (typeof rows)[number]["key"],
+      row: FarmsScenarioRow | undefined
+    ) =>
+      value == null
+        ? explainBlankParameter(key, row, scenario.inputs, results)
+        : undefined;
+
+    return rows.map((r) => {
+      const base = getValue("base", r.key);
+      const rounded = getValue("rounded", r.key);
+      const floored = getValue("floored", r.key);
+      return {
+        ...r,
+        base,
+        rounded,
+        floored,
+        blankReasons: {
+          base: explain(base, r.key, baseScenario),
+          rounded: explain(rounded, r.key, roundedScenario),
+          floored: explain(floored, r.key, flooredScenario)
+        }
+      };
+    });
   }, [
     baseVals,
     roundedVals,
     flooredVals,
+    baseScenario,
+    roundedScenario,
+    flooredScenario,
+    results,
+    scenario.inputs,
     scenario.config.mortalityAsPercent,
-    scenario.inputs.sn10FarmCapacity,
-    scenario.inputs.sn11NumberOfHouses,
-    scenario.inputs.sn12HouseArea,
-    scenario.inputs.sn2HarvestBirdAvgWeight,
-    scenario.inputs.sn4PlannedMortality,
-    scenario.inputs.sn6CycleTimeDays,
+    scenario.timeHorizon,
+    periodLabel,
     uomForSn1
   ]);
 
+  const sensitivity = useMemo(
+    () =>
+      runSensitivity(
+        scenario.inputs,
+        scenario.config,
+        horizon,
+        sensitivityOutput,
+        sensitivityRange
+      ),
+    [scenario.inputs, scenario.config, horizon, sensitivityOutput, sensitivityRange]
+  );
+  const sensitivityOutputLabel =
+    broilerOutputOptions.find((o) => o.key === sensitivityOutput)?.label ??
+    sensitivityOutput;
+
+  const summaryMetrics: ReportValueRow[] = [
+    { label: "Farms needed", uom: "farms", key: "sn14" as const, decimals: 2 },
+    { label: "Target Broiler Meat", uom: uomForSn1, key: "sn1" as const, decimals: 3 },
+    { label: "Placement per cycle", uom: "birds/cycle", key: "sn9" as const, decimals: 0 },
+    { label: `Harvest birds per ${periodLabel}`, uom: `birds/${periodLabel}`, key: "sn3" as const, decimals: 0 },
+    { label: "Density", uom: "birds/m²", key: "sn13" as const, decimals: 2 }
+  ].map((metric) => {
+    const valueOf = (source: typeof baseVals) =>
+      (source as Record<string, number | null | undefined>)[metric.key] ?? null;
+    return {
+      ...metric,
+      base: valueOf(baseVals),
+      rounded: valueOf(roundedVals),
+      floored: valueOf(flooredVals)
+    };
+  });
+  // Only known when SN6 is composed; the same for every farm scenario
+  if (results.stockedFraction != null) {
+    const stocked = results.stockedFraction * 100;
+    summaryMetrics.push({
+      label: "Stocked share of the horizon",
+      uom: "%",
+      decimals: 1,
+      base: stocked,
+      rounded: stocked,
+      floored: stocked
+    });
+  }
+
+  const fileTimestamp = () => {
+    const now = new Date();
+    return `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(
+      now.getDate()
+    ).padStart(2, "0")}_${String(now.getHours()).padStart(2, "0")}${String(
+      now.getMinutes()
+    ).padStart(2, "0")}`;
+  };
+
+  const handleDownloadWorkbook = () => {
+    downloadScenarioWorkbook(scenario, `broiler_scenarios_${fileTimestamp()}.xlsx`);
+  };
+
+  const handleDownloadReport = () => {
+    downloadPlanningReport(
+      {
+        scenario,
+        unitsModeLabel: unitsModeLabel(scenario.config.unitsMode),
+        inputUnits: {
+          sn1TargetBroilerMeat: sn1InputUnit,
+          sn2HarvestBirdAvgWeight: "kg/bird",
+          sn4PlannedMortality: scenario.config.mortalityAsPercent ? "%" : "",
+          sn6CycleTimeDays: "days",
+          growOutDays: "days",
+          cleanoutDays: "days",
+          downtimeDays: "days",
+          sn10FarmCapacity: "birds/cycle",
+          sn11NumberOfHouses: "houses",
+          sn12HouseArea: "m²",
+          yieldPercent: "%"
+        },
+        parameters: fullParametersRows.map((r) => ({ ...r, decimals: 3 })),
+        summary: summaryMetrics,
+        portfolio: scenario.farms.length > 0 ? allocatePortfolio(scenario, results) : null,
+        diagnostics: results.diagnostics.filter((d) => d.severity !== "info")
+      },
+      `broiler_plan_${fileTimestamp()}.pdf`
+    );
+  };
+
   const handleDownloadCsv = () => {
-    const headers = [
-      "Parameter",
-      "UOM",
-      "Base (exact farms)",
-      "Rounded up farms",
-      "Floored farms"
-    ];
+    // Raw values use "." and no grouping so spreadsheets in any locale read
+    // them as numbers; formatted values follow the number format setting.
+    const numberHeaders = (label: string) =>
+      csvNumbers === "both" ? [label, `${label} (raw)`] : [label];
+    const numberCells = (value: number | null | undefined) => {
+      const formatted = formatNumber(value ?? undefined, { maximumFractionDigits: 6 });
+      const raw = value != null && Number.isFinite(value) ? String(value) : "";
+      return csvNumbers === "formatted"
+        ? [formatted]
+        : csvNumbers === "raw"
+          ? [raw]
+          : [formatted, raw];
+    };
 
     const rows: string[][] = [
-      headers,
+      [
+        "Parameter",
+        "UOM",
+        ...["Base (exact farms)", "Rounded up farms", "Floored farms"].flatMap(numberHeaders)
+      ],
       ...fullParametersRows.map((r) => [
         r.label,
         r.uom,
-        formatNumber(r.base ?? undefined, { maximumFractionDigits: 6 }),
-        formatNumber(r.rounded ?? undefined, { maximumFractionDigits: 6 }),
-        formatNumber(r.floored ?? undefined, { maximumFractionDigits: 6 })
+        ...[r.base, r.rounded, r.floored].flatMap(numberCells)
+      ]),
+      [],
+      [`Sensitivity of ${sensitivityOutputLabel} (±${sensitivityRange}%)`],
+      [
+        "Input",
+        ...[
+          "Base input",
+          "Low input",
+          "Output at low",
+          "High input",
+          "Output at high",
+          "Swing"
+        ].flatMap(numberHeaders)
+      ],
+      ...sensitivity.rows.map((r) => [
+        r.label,
+        ...[r.baseInput, r.lowInput, r.lowOutput, r.highInput, r.highOutput, r.swing].flatMap(
+          numberCells
+        )
       ])
     ];
 
@@ -398,582 +834,989 @@ export const BroilerScenarioPage: React.FC = () => {
     const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
-    const now = new Date();
-    const timestamp = `${now.getFullYear()}${String(
-      now.getMonth() + 1
-    ).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}_${String(
-      now.getHours()
-    ).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}`;
     a.href = url;
-    a.download = `broiler_scenarios_${timestamp}.csv`;
+    a.download = `broiler_scenarios_${fileTimestamp()}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
   return (
-    <main className="main">
-      <div className="main-header-row">
-        <h1 className="page-title">Broiler Planning Parameters</h1>
-        <button
-          type="button"
-          className="btn btn-primary"
-          onClick={handleSaveScenario}
-        >
-          Generate Scenarios
-        </button>
-      </div>
-
-      {saveMessage && <div className="banner">{saveMessage}</div>}
-
-      <div className="card-grid">
-        <Card title="Scenario Setup">
-          <div className="form-grid">
-            <div className="form-field">
-              <label>
-                Scenario Name
-                <input
-                  type="text"
-                  value={scenario.name}
-                  onChange={(e) =>
-                    handleScenarioMetaChange("name", e.target.value)
-                  }
-                  placeholder="e.g. 2026 – Base Broiler Capacity"
-                />
-              </label>
-              {validationErrors.scenarioName && (
-                <div className="field-error">{validationErrors.scenarioName}</div>
-              )}
-            </div>
-            <div className="form-field">
-              <label>
-                Description (optional)
-                <input
-                  type="text"
-                  value={scenario.description ?? ""}
-                  onChange={(e) =>
-                    handleScenarioMetaChange("description", e.target.value)
-                  }
-                  placeholder="Short note about this scenario"
-                />
-              </label>
-            </div>
-          </div>
-
-          <div className="form-grid">
-            <div className="form-field">
-              <label>
-                Time Horizon
-                <select
-                  value={scenario.timeHorizon}
-                  onChange={(e) =>
-                    handleScenarioMetaChange(
-                      "timeHorizon",
-                      e.target.value as BroilerScenario["timeHorizon"]
-                    )
-                  }
-                >
-                  <option value="year">Per year</option>
-                  <option value="threeYears">3 years</option>
-                  <option value="customDays">Custom days</option>
-                </select>
-              </label>
-            </div>
-            {scenario.timeHorizon === "customDays" && (
-              <div className="form-field">
-                <label>
-                  Custom Horizon (days)
-                  <input
-                    type="number"
-                    value={scenario.customDays ?? ""}
-                    onChange={(e) =>
-                      setScenario((prev) => ({
-                        ...prev,
-                        customDays:
-                          e.target.value === "" ? undefined : Number(e.target.value)
-                      }))
-                    }
-                  />
-                </label>
-              </div>
-            )}
+    <>
+      <StepperHeader
+        steps={wizardSteps}
+        activeIndex={activeStepIndex}
+        enabled={stepEnabled}
+        onSelect={handleStepSelect}
+      />
+      <main className="main">
+        <div className="main-header-row">
+          <h1 className="page-title">Broiler Planning Parameters</h1>
+          <div className="card-actions">
+            {savedCopy && <SyncBadge state={sync.statusOf(savedCopy.id)} />}
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => void handleCopyShareLink()}
+              title="Copy a link that opens these assumptions in another browser"
+            >
+              Copy link
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={editor.undo}
+              disabled={!editor.canUndo}
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={editor.redo}
+              disabled={!editor.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              Redo
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleSaveScenario}
+            >
+              Generate Scenarios
+            </button>
           </div>
-
-          <div className="form-grid">
-            <div className="form-field">
-              <label>
-                Units Mode
-                <select
-                  value={scenario.config.unitsMode}
-                  onChange={(e) =>
-                    handleConfigChange({
-                      unitsMode: e.target.value as UnitsModeKey
-                    })
-                  }
-                >
-                  <option value="tonsPerYear_kgPerBird">
-                    SN1 in Tons/year, SN2 in kg/bird
-                  </option>
-                  <option value="kgPerYear_kgPerBird">
-                    SN1 in kg/year, SN2 in kg/bird
-                  </option>
-                  <option value="meatTonsWithYield">
-                    SN1 is meat/carcass tons (Yield%)
-                  </option>
-                </select>
-              </label>
-              <div className="field-hint">
-                Current mode: {unitsModeLabel(scenario.config.unitsMode)}
-              </div>
-            </div>
+        </div>
+
+        {notice && <div className="banner">{notice}</div>}
+        {shareError && (
+          <div className="banner banner-warning share-banner">
+            <span>{shareError}</span>
+            <button type="button" className="pill" onClick={() => setShareError(null)}>
+              Dismiss
+            </button>
           </div>
-
-          <div className="toggle-row">
-            <ToggleSwitch
-              label="Use Yield %"
-              checked={scenario.config.useYield}
-              onChange={(checked) => handleConfigChange({ useYield: checked })}
-              description="When enabled, SN1 is carcass meat and live weight is adjusted by Yield%."
-            />
-            <ToggleSwitch
-              label="Full Cycles Only"
-              checked={scenario.config.useFullCyclesOnly}
-              onChange={(checked) =>
-                handleConfigChange({ useFullCyclesOnly: checked })
-              }
-              description="Rounds down cycles per year to full cycles."
-            />
+        )}
+        {sharedId === scenario.id && !savedCopy && (
+          <div className="banner share-banner">
+            <span>
+              Opened “{scenario.name || "Untitled scenario"}” from a shared link.
+              Save it to keep a copy in your library.
+            </span>
+            <span className="library-actions">
+              <button type="button" className="pill" onClick={handleSaveScenario}>
+                Save to library
+              </button>
+              <button type="button" className="pill" onClick={() => setSharedId(null)}>
+                Dismiss
+              </button>
+            </span>
           </div>
-          <div className="toggle-row">
-            <ToggleSwitch
-              label="Use 365.25 days/year"
-              checked={scenario.config.useLeapYearCycles}
-              onChange={(checked) =>
-                handleConfigChange({ useLeapYearCycles: checked })
-              }
-              description="Use leap-year adjusted year length in cycle calculations."
-            />
-            <ToggleSwitch
-              label="Mortality entered as percent"
-              checked={scenario.config.mortalityAsPercent}
-              onChange={(checked) =>
-                handleConfigChange({ mortalityAsPercent: checked })
-              }
-              description="If disabled, SN4 is interpreted as a fraction (e.g. 0.05 for 5%)."
-            />
+        )}
+        {missingScenarioId && (
+          <div className="banner banner-warning">
+            No saved scenario with id “{missingScenarioId}” was found. It may
+            have been deleted or saved in another browser.
           </div>
+        )}
+
+        <div className="card-grid">
+          {activeStep === "compare" && (
+            <>
+              {bundleImport && (
+                <BundleImportPreview
+                  fileName={bundleImport.fileName}
+                  preview={bundleImport.preview}
+                  onImport={handleConfirmBundleImport}
+                  onCancel={() => setBundleImport(null)}
+                />
+              )}
+
+              <ScenarioLibrary
+                scenarios={library}
+                activeId={scenario.id}
+                onOpen={handleOpenScenario}
+                onRename={handleRenameScenario}
+                onDuplicate={handleDuplicateScenario}
+                onOverwrite={handleOverwriteScenario}
+                onDelete={handleDeleteScenario}
+                onNew={handleNewScenario}
+                onImportWorkbook={handleImportWorkbook}
+                onImportBundle={handleImportBundle}
+                onExportBundle={handleExportBundle}
+                quarantined={quarantined}
+                newerSchemaVersion={newerSchemaVersion}
+                onDownloadQuarantine={handleDownloadQuarantine}
+                onClearQuarantine={handleClearQuarantine}
+                syncStateOf={sync.statusOf}
+                syncError={sync.serverError}
+                onRetrySync={() => void sync.retry()}
+              />
+
+              {savedCopy && (
+                <RevisionHistory
+                  scenario={savedCopy}
+                  onRestore={handleRestoreRevision}
+                />
+              )}
+
+              <ScenarioComparison scenarios={library} />
+            </>
+          )}
 
-          {scenario.config.useYield && (
-            <div className="form-grid">
-              <div className="form-field">
-                <label>
-                  Yield %
-                  <div className="input-with-unit">
+          {activeStep === "broiler" && (
+            <Card title="Scenario Setup">
+              <div className="form-grid">
+                <div className="form-field">
+                  <label>
+                    Scenario Name
                     <input
-                      type="number"
-                      value={scenario.inputs.yieldPercent ?? ""}
+                      type="text"
+                      value={scenario.name}
                       onChange={(e) =>
-                        handleInputChange("yieldPercent", e.target.value)
+                        handleScenarioMetaChange("name", e.target.value)
                       }
-                      min={0}
-                      max={100}
+                      placeholder="e.g. 2026 – Base Broiler Capacity"
                     />
-                    <span className="input-unit">%</span>
-                  </div>
-                </label>
-                {validationErrors.yieldPercent && (
-                  <div className="field-error">
-                    {validationErrors.yieldPercent}
-                  </div>
-                )}
+                  </label>
+                  {validationErrors.scenarioName && (
+                    <div className="field-error">{validationErrors.scenarioName}</div>
+                  )}
+                </div>
+                <div className="form-field">
+                  <label>
+                    Description (optional)
+                    <input
+                      type="text"
+                      value={scenario.description ?? ""}
+                      onChange={(e) =>
+                        handleScenarioMetaChange("description", e.target.value)
+                      }
+                      placeholder="Short note about this scenario"
+                    />
+                  </label>
+                </div>
               </div>
-            </div>
-          )}
-        </Card>
-
-        <Card title="Broiler Inputs">
-          <div className="form-grid broiler-inputs-grid">
-            {[
-              {
-                sn: "SN1",
-                key: "sn1TargetBroilerMeat",
-                label: "Target Broiler Meat",
-                unit:
-                  scenario.config.unitsMode === "kgPerYear_kgPerBird"
-                    ? "kg/year"
-                    : "tons/year"
-              },
-              {
-                sn: "SN2",
-                key: "sn2HarvestBirdAvgWeight",
-                label: "Harvest Birds Average Weight",
-                unit: "kg/bird"
-              },
-              {
-                sn: "SN4",
-                key: "sn4PlannedMortality",
-                label: "Planned Mortality",
-                unit: scenario.config.mortalityAsPercent ? "% birds" : "fraction"
-              },
-              {
-                sn: "SN6",
-                key: "sn6CycleTimeDays",
-                label: "Broiler Cycle Time",
-                unit: "days"
-              },
-              {
-                sn: "SN10",
-                key: "sn10FarmCapacity",
-                label: "Broiler Farm Capacity",
-                unit: "birds/cycle"
-              },
-              {
-                sn: "SN11",
-                key: "sn11NumberOfHouses",
-                label: "Broiler No. of Houses",
-                unit: "houses"
-              },
-              {
-                sn: "SN12",
-                key: "sn12HouseArea",
-                label: "Broiler House Area",
-                unit: "m²"
-              }
-            ].map((row) => {
-              const value =
-                scenario.inputs[row.key as keyof BroilerInputs] ?? "";
-              const error = validationErrors[row.key];
-              return (
-                <div key={row.sn} className="form-field">
+
+              <div className="form-grid">
+                <div className="form-field">
                   <label>
-                    {row.label}
-                    <div className="input-with-unit">
-                      <input
-                        type="number"
-                        value={value}
-                        onChange={(e) =>
-                          handleInputChange(
-                            row.key as keyof BroilerInputs,
-                            e.target.value
+                    Time Horizon
+                    <select
+                      value={scenario.timeHorizon}
+                      onChange={(e) =>
+                        handleScenarioMetaChange(
+                          "timeHorizon",
+                          e.target.value as BroilerScenario["timeHorizon"]
+                        )
+                      }
+                    >
+                      <option value="year">Per year</option>
+                      <option value="threeYears">3 years</option>
+                      <option value="customDays">Custom days</option>
+                    </select>
+                  </label>
+                  {scenario.timeHorizon !== "year" && (
+                    <div className="field-hint">
+                      SN1 stays an annual target; totals are reported per {periodLabel}.
+                    </div>
+                  )}
+                </div>
+                {scenario.timeHorizon === "customDays" && (
+                  <div className={fieldIssue("customDays").className}>
+                    <label>
+                      Custom Horizon (days)
+                      <NumberInput
+                        value={scenario.customDays}
+                        onChange={(value) =>
+                          editor.edit(
+                            (prev) => ({ ...prev, customDays: value ?? undefined }),
+                            "customDays"
                           )
                         }
                       />
-                      <span className="input-unit">{row.unit}</span>
-                    </div>
+                    </label>
+                    {fieldIssue("customDays").message && (
+                      <div className="field-error">{fieldIssue("customDays").message}</div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="form-grid">
+                <div className="form-field">
+                  <label>
+                    Number format
+                    <select
+                      value={numberLocale}
+                      onChange={(e) => setNumberLocale(e.target.value)}
+                    >
+                      {numberLocaleOptions.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
                   </label>
-                  {error && <div className="field-error">{error}</div>}
+                  <div className="field-hint">
+                    Used to show and type every number on this device.
+                  </div>
                 </div>
-              );
-            })}
-          </div>
-        </Card>
-
-        <Card title="Results & Analysis">
-          {results.hasDivisionByZero && (
-            <div className="banner banner-warning">
-              Some results could not be calculated due to invalid inputs or
-              division by zero. Please review your assumptions.
-            </div>
+              </div>
+            </Card>
           )}
 
-          <div className="results-topbar">
-            <div className="results-topbar-title">
-              <div className="results-title">Results & Analysis</div>
-              <div className="results-subtitle">Last updated: {lastUpdatedAt}</div>
-            </div>
-            <button type="button" className="btn btn-primary" onClick={handleDownloadCsv}>
-              Download Results
-            </button>
-          </div>
-
-          <div className="scenario-cards">
-            <button
-              type="button"
-              className={`scenario-card ${activeScenarioView === "base" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("base")}
-            >
-              <div className="scenario-card-title">Base Performance</div>
-              <div className="scenario-card-metrics">
-                <div className="scenario-card-row">
-                  <span>Farms</span>
-                  <span className="mono">
-                    {formatNumber(baseVals.sn14 ?? undefined, { maximumFractionDigits: 2 })}
-                  </span>
-                </div>
-                <div className="scenario-card-row">
-                  <span>Target Meat</span>
-                  <span className="mono">
-                    {formatNumber(baseVals.sn1 ?? undefined, { maximumFractionDigits: 3 })} {uomForSn1}
-                  </span>
-                </div>
-                <div className="scenario-card-row">
-                  <span>Placement/cycle</span>
-                  <span className="mono">
-                    {formatNumber(baseVals.sn9 ?? undefined, { maximumFractionDigits: 0 })}
-                  </span>
+          {activeStep === "assumptions" && (
+            <Card title="Assumptions">
+              <div className="form-grid">
+                <div className="form-field">
+                  <label>
+                    Units Mode
+                    <select
+                      value={scenario.config.unitsMode}
+                      onChange={(e) =>
+                        handleConfigChange({
+                          unitsMode: e.target.value as UnitsModeKey,
+                          ...(e.target.value === "meatTonsWithYield"
+                            ? { useYield: true }
+                            : {})
+                        })
+                      }
+                    >
+                      <option value="tonsPerYear_kgPerBird">
+                        SN1 in Tons/year, SN2 in kg/bird
+                      </option>
+                      <option value="kgPerYear_kgPerBird">
+                        SN1 in kg/year, SN2 in kg/bird
+                      </option>
+                      <option value="meatTonsWithYield">
+                        SN1 is meat/carcass tons (Yield%)
+                      </option>
+                    </select>
+                  </label>
+                  <div className="field-hint">
+                    Current mode: {unitsModeLabel(scenario.config.unitsMode)}
+                  </div>
+                  {validationErrors.useYield && (
+                    <div className="field-error">{validationErrors.useYield}</div>
+                  )}
                 </div>
               </div>
-            </button>
 
-            <button
-              type="button"
-              className={`scenario-card scenario-card-warn ${activeScenarioView === "rounded" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("rounded")}
-            >
-              <div className="scenario-card-title">Rounded Performance</div>
-              <div className="scenario-card-metrics">
-                <div className="scenario-card-row">
-                  <span>Farms</span>
-                  <span className="mono">
-                    {roundedScenario?.farms != null ? Math.ceil(roundedScenario.farms).toString() : "—"}
-                  </span>
-                </div>
-                <div className="scenario-card-row">
-                  <span>Target Meat</span>
-                  <span className="mono">
-                    {formatNumber(roundedVals.sn1 ?? undefined, { maximumFractionDigits: 3 })} {uomForSn1}
-                  </span>
-                </div>
-                <div className="scenario-card-row">
-                  <span>Placement/cycle</span>
-                  <span className="mono">
-                    {formatNumber(roundedVals.sn9 ?? undefined, { maximumFractionDigits: 0 })}
-                  </span>
-                </div>
+              <div className="toggle-row">
+                <ToggleSwitch
+                  label="Use Yield %"
+                  checked={scenario.config.useYield}
+                  onChange={(checked) => handleConfigChange({ useYield: checked })}
+                  description="When enabled, SN1 is carcass meat and live weight is adjusted by Yield%."
+                />
+                <ToggleSwitch
+                  label="Full Cycles Only"
+                  checked={scenario.config.useFullCyclesOnly}
+                  onChange={(checked) =>
+                    handleConfigChange({ useFullCyclesOnly: checked })
+                  }
+                  description="Rounds down cycles in the horizon to full cycles."
+                />
+              </div>
+              <div className="toggle-row">
+                <ToggleSwitch
+                  label="Use 365.25 days/year"
+                  checked={scenario.config.useLeapYearCycles}
+                  onChange={(checked) =>
+                    handleConfigChange({ useLeapYearCycles: checked })
+                  }
+                  description="Use leap-year adjusted year length in cycle calculations."
+                />
+                <ToggleSwitch
+                  label="Mortality entered as percent"
+                  checked={scenario.config.mortalityAsPercent}
+                  onChange={(checked) =>
+                    handleConfigChange({ mortalityAsPercent: checked })
+                  }
+                  description="If disabled, SN4 is interpreted as a fraction (e.g. 0.05 for 5%)."
+                />
               </div>
-            </button>
 
-            <button
-              type="button"
-              className={`scenario-card ${activeScenarioView === "floored" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("floored")}
-            >
-              <div className="scenario-card-title">Floored Performance</div>
-              <div className="scenario-card-metrics">
-                <div className="scenario-card-row">
-                  <span>Farms</span>
-                  <span className="mono">
-                    {flooredScenario?.farms != null ? Math.floor(flooredScenario.farms).toString() : "—"}
-                  </span>
-                </div>
-                <div className="scenario-card-row">
-                  <span>Target Meat</span>
-                  <span className="mono">
-                    {formatNumber(flooredVals.sn1 ?? undefined, { maximumFractionDigits: 3 })} {uomForSn1}
-                  </span>
+              {scenario.config.useYield && (
+                <div className="form-grid">
+                  <div className={fieldIssue("yieldPercent").className}>
+                    <label>
+                      Yield %
+                      <div className="input-with-unit">
+                        <NumberInput
+                          value={scenario.inputs.yieldPercent}
+                          onChange={(value) => handleInputChange("yieldPercent", value)}
+                        />
+                        <span className="input-unit">%</span>
+                      </div>
+                    </label>
+                    {fieldIssue("yieldPercent").message && (
+                      <div className="field-error">
+                        {fieldIssue("yieldPercent").message}
+                      </div>
+                    )}
+                  </div>
                 </div>
-                <div className="scenario-card-row">
-                  <span>Placement/cycle</span>
+              )}
+            </Card>
+          )}
+
+          {activeStep === "broiler" && (
+            <Card title="Broiler Inputs">
+              <div className="toggle-row">
+                <ToggleSwitch
+                  label="Break down cycle time"
+                  checked={scenario.config.composeCycleTime}
+                  onChange={(checked) => handleConfigChange({ composeCycleTime: checked })}
+                  description="Build SN6 from the grow-out age at harvest, cleanout and a downtime buffer."
+                />
+              </div>
+              <div className="form-grid broiler-inputs-grid">
+                {[
+                  {
+                    sn: "SN1",
+                    key: "sn1TargetBroilerMeat",
+                    label: "Target Broiler Meat",
+                    unit: sn1InputUnit
+                  },
+                  {
+                    sn: "SN2",
+                    key: "sn2HarvestBirdAvgWeight",
+                    label: "Harvest Birds Average Weight",
+                    unit: "kg/bird"
+                  },
+                  {
+                    sn: "SN4",
+                    key: "sn4PlannedMortality",
+                    label: "Planned Mortality",
+                    unit: scenario.config.mortalityAsPercent ? "% birds" : "fraction"
+                  },
+                  ...(scenario.config.composeCycleTime
+                    ? [
+                        {
+                          sn: "SN6a",
+                          key: "growOutDays",
+                          label: "Grow-out Age at Harvest",
+                          unit: "days"
+                        },
+                        {
+                          sn: "SN6b",
+                          key: "cleanoutDays",
+                          label: "Cleanout Days",
+                          unit: "days"
+                        },
+                        {
+                          sn: "SN6c",
+                          key: "downtimeDays",
+                          label: "Downtime Buffer",
+                          unit: "days"
+                        }
+                      ]
+                    : [
+                        {
+                          sn: "SN6",
+                          key: "sn6CycleTimeDays",
+                          label: "Broiler Cycle Time",
+                          unit: "days"
+                        }
+                      ]),
+                  {
+                    sn: "SN10",
+                    key: "sn10FarmCapacity",
+                    label: "Broiler Farm Capacity",
+                    unit: "birds/cycle"
+                  },
+                  {
+                    sn: "SN11",
+                    key: "sn11NumberOfHouses",
+                    label: "Broiler No. of Houses",
+                    unit: "houses"
+                  },
+                  {
+                    sn: "SN12",
+                    key: "sn12HouseArea",
+                    label: "Broiler House Area",
+                    unit: "m²"
+                  }
+                ].map((row) => {
+                  const issue = fieldIssue(row.key as keyof BroilerInputs);
+                  const derived = row.key === derivedGrowthInput(scenario.config);
+                  const point = results.growthPoint;
+                  return (
+                    <div key={row.sn} className={issue.className}>
+                      <label>
+                        {row.label}
+                        <div className="input-with-unit">
+                          {derived ? (
+                            <input
+                              type="text"
+                              readOnly
+                              value={
+                                point
+                                  ? formatNumber(
+                                      row.key === "growOutDays" ? point.ageDays : point.weightKg,
+                                      { maximumFractionDigits: 3 }
+                                    )
+                                  : ""
+                              }
+                            />
+                          ) : (
+                            <NumberInput
+                              value={scenario.inputs[row.key as keyof BroilerInputs]}
+                              onChange={(value) =>
+                                handleInputChange(row.key as keyof BroilerInputs, value)
+                              }
+                            />
+                          )}
+                          <span className="input-unit">{row.unit}</span>
+                        </div>
+                      </label>
+                      {derived && <div className="field-hint">From the growth curve</div>}
+                      {issue.message && <div className="field-error">{issue.message}</div>}
+                    </div>
+                  );
+                })}
+              </div>
+              {scenario.config.composeCycleTime && (
+                <div className="field-hint">
+                  SN6 Broiler Cycle Time:{" "}
                   <span className="mono">
-                    {formatNumber(flooredVals.sn9 ?? undefined, { maximumFractionDigits: 0 })}
-                  </span>
+                    {formatNumber(results.sn6CycleTimeDays, { maximumFractionDigits: 2 })}
+                  </span>{" "}
+                  days
+                  {results.stockedFraction != null &&
+                    `; birds are on the farm ${formatNumber(results.stockedFraction * 100, {
+                      maximumFractionDigits: 1
+                    })}% of the horizon`}
+                  .
                 </div>
-              </div>
-            </button>
+              )}
+            </Card>
+          )}
 
-            <button
-              type="button"
-              className={`scenario-card scenario-card-combined ${activeScenarioView === "combined" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("combined")}
-            >
-              <div className="scenario-card-title">Combined</div>
-              <div className="scenario-card-metrics">
-                <div className="scenario-card-row">
-                  <span>Scenarios</span>
-                  <span className="mono">3</span>
-                </div>
-                <div className="scenario-card-row">
-                  <span>Farms range</span>
-                  <span className="mono">
-                    {baseVals.sn14 != null && flooredVals.sn14 != null && roundedVals.sn14 != null
-                      ? `${formatNumber(flooredVals.sn14, { maximumFractionDigits: 2 })} – ${formatNumber(roundedVals.sn14, { maximumFractionDigits: 2 })}`
-                      : "—"}
-                  </span>
+          {activeStep === "broiler" && (
+            <GrowthCurvePanel
+              scenario={scenario}
+              results={results}
+              error={validationErrors.growthCurve}
+              onConfigChange={handleConfigChange}
+            />
+          )}
+
+          {activeStep === "broiler" && (
+            <StockingDensityPanel
+              scenario={scenario}
+              results={results}
+              error={validationErrors.densityLimitKgPerM2}
+              onLimitChange={(limit) =>
+                editor.edit(
+                  (prev) => ({
+                    ...prev,
+                    config: { ...prev.config, densityLimitKgPerM2: limit }
+                  }),
+                  "densityLimitKgPerM2"
+                )
+              }
+              onApplyCapacity={(capacity) =>
+                editor.edit((prev) => ({
+                  ...prev,
+                  inputs: { ...prev.inputs, sn10FarmCapacity: capacity }
+                }))
+              }
+            />
+          )}
+
+          {activeStep === "broiler" && (
+            <PortfolioPanel
+              scenario={scenario}
+              results={results}
+              error={validationErrors.farms}
+              onAddFarm={(farm) =>
+                editor.edit((prev) => ({ ...prev, farms: [...prev.farms, farm] }))
+              }
+              onChangeFarm={handleFarmChange}
+              onRemoveFarm={(id) =>
+                editor.edit((prev) => ({
+                  ...prev,
+                  farms: prev.farms.filter((farm) => farm.id !== id)
+                }))
+              }
+            />
+          )}
+
+          {(activeStep === "broiler" || activeStep === "assumptions") && (
+            <Card title="Results & Analysis">
+              <DiagnosticsBanner results={results} />
+
+              <div className="results-topbar">
+                <div className="results-topbar-title">
+                  <div className="results-title">Results & Analysis</div>
+                  <div className="results-subtitle">Last updated: {lastUpdatedAt}</div>
                 </div>
-                <div className="scenario-card-row">
-                  <span>Target Meat range</span>
-                  <span className="mono">
-                    {flooredVals.sn1 != null && roundedVals.sn1 != null
-                      ? `${formatNumber(flooredVals.sn1, { maximumFractionDigits: 3 })} – ${formatNumber(roundedVals.sn1, { maximumFractionDigits: 3 })} ${uomForSn1}`
-                      : "—"}
-                  </span>
+                <div className="card-actions">
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={handleDownloadWorkbook}
+                  >
+                    Download Excel
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={handleDownloadReport}
+                  >
+                    Download report
+                  </button>
+                  <label className="csv-numbers">
+                    CSV numbers
+                    <select
+                      value={csvNumbers}
+                      onChange={(e) => setCsvNumbers(e.target.value as CsvNumberMode)}
+                    >
+                      <option value="both">Formatted + raw</option>
+                      <option value="formatted">Formatted</option>
+                      <option value="raw">Raw (machine-readable)</option>
+                    </select>
+                  </label>
+                  <button type="button" className="btn btn-primary" onClick={handleDownloadCsv}>
+                    Download Results
+                  </button>
                 </div>
               </div>
-            </button>
-          </div>
-
-          <div className="scenario-view-buttons">
-            <button
-              type="button"
-              className={`pill ${activeScenarioView === "base" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("base")}
-            >
-              Base
-            </button>
-            <button
-              type="button"
-              className={`pill ${activeScenarioView === "rounded" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("rounded")}
-            >
-              Rounded
-            </button>
-            <button
-              type="button"
-              className={`pill ${activeScenarioView === "floored" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("floored")}
-            >
-              Floored
-            </button>
-            <button
-              type="button"
-              className={`pill ${activeScenarioView === "combined" ? "active" : ""}`}
-              onClick={() => setActiveScenarioView("combined")}
-            >
-              All Combined
-            </button>
-          </div>
 
-          <div className="results-tabs">
-            <button
-              type="button"
-              className={`tab ${activeResultsTab === "fullParameters" ? "active" : ""}`}
-              onClick={() => setActiveResultsTab("fullParameters")}
-            >
-              Full Parameters
-            </button>
-            <button
-              type="button"
-              className={`tab ${activeResultsTab === "summary" ? "active" : ""}`}
-              onClick={() => setActiveResultsTab("summary")}
-            >
-              Summary
-            </button>
-          </div>
+              <div className="scenario-cards">
+                <button
+                  type="button"
+                  className={`scenario-card ${activeScenarioView === "base" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("base")}
+                >
+                  <div className="scenario-card-title">Base Performance</div>
+                  <div className="scenario-card-metrics">
+                    <div className="scenario-card-row">
+                      <span>Farms</span>
+                      <span className="mono">
+                        {formatNumber(baseVals.sn14 ?? undefined, { maximumFractionDigits: 2 })}
+                      </span>
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Target Meat</span>
+                      <span className="mono">
+                        {formatNumber(baseVals.sn1 ?? undefined, { maximumFractionDigits: 3 })} {uomForSn1}
+                      </span>
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Placement/cycle</span>
+                      <span className="mono">
+                        {formatNumber(baseVals.sn9 ?? undefined, { maximumFractionDigits: 0 })}
+                      </span>
+                    </div>
+                  </div>
+                </button>
 
-          {activeResultsTab === "fullParameters" && (
-            <div className="results-table">
-              <div className="results-header">
-                <span>Parameter</span>
-                <span>UOM</span>
-                {activeScenarioView === "combined" ? (
-                  <>
-                    <span>Base</span>
-                    <span>Rounded</span>
-                    <span>Floored</span>
-                  </>
-                ) : (
-                  <span>Value</span>
-                )}
-              </div>
+                <button
+                  type="button"
+                  className={`scenario-card scenario-card-warn ${activeScenarioView === "rounded" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("rounded")}
+                >
+                  <div className="scenario-card-title">Rounded Performance</div>
+                  <div className="scenario-card-metrics">
+                    <div className="scenario-card-row">
+                      <span>Farms</span>
+                      <span className="mono">
+                        {roundedScenario?.farms != null ? Math.ceil(roundedScenario.farms).toString() : "—"}
+                      </span>
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Target Meat</span>
+                      <span className="mono">
+                        {formatNumber(roundedVals.sn1 ?? undefined, { maximumFractionDigits: 3 })} {uomForSn1}
+                      </span>
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Placement/cycle</span>
+                      <span className="mono">
+                        {formatNumber(roundedVals.sn9 ?? undefined, { maximumFractionDigits: 0 })}
+                      </span>
+                    </div>
+                  </div>
+                </button>
 
-              {fullParametersRows.map((r) => {
-                const decimals =
-                  r.key === "sn7"
-                    ? scenario.config.useFullCyclesOnly
-                      ? 0
-                      : 2
-                    : r.key === "sn13"
-                      ? 2
-                      : r.key === "sn14"
-                        ? 3
-                        : r.key === "sn2"
-                          ? 3
-                          : 0;
-
-                const pick = (which: "base" | "rounded" | "floored") =>
-                  formatNumber(
-                    (which === "base" ? r.base : which === "rounded" ? r.rounded : r.floored) ??
-                      undefined,
-                    { maximumFractionDigits: decimals }
-                  );
+                <button
+                  type="button"
+                  className={`scenario-card ${activeScenarioView === "floored" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("floored")}
+                >
+                  <div className="scenario-card-title">Floored Performance</div>
+                  <div className="scenario-card-metrics">
+                    <div className="scenario-card-row">
+                      <span>Farms</span>
+                      <span className="mono">
+                        {flooredScenario?.farms != null ? Math.floor(flooredScenario.farms).toString() : "—"}
+                      </span>
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Target Meat</span>
+                      <span className="mono">
+                        {formatNumber(flooredVals.sn1 ?? undefined, { maximumFractionDigits: 3 })} {uomForSn1}
+                      </span>
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Placement/cycle</span>
+                      <span className="mono">
+                        {formatNumber(flooredVals.sn9 ?? undefined, { maximumFractionDigits: 0 })}
+                      </span>
+                    </div>
+                  </div>
+                </button>
 
-                return (
-                  <div key={r.key} className="results-row">
-                    <span className="results-label">{r.label}</span>
-                    <span className="results-unit">{r.uom}</span>
-                    {activeScenarioView === "combined" ? (
-                      <>
-                        <span className="results-value">{pick("base")}</span>
-                        <span className="results-value">{pick("rounded")}</span>
-                        <span className="results-value">{pick("floored")}</span>
-                      </>
-                    ) : (
-                      <span className="results-value">
-                        {activeScenarioView === "base"
-                          ? pick("base")
-                          : activeScenarioView === "rounded"
-                            ? pick("rounded")
-                            : pick("floored")}
+                <button
+                  type="button"
+                  className={`scenario-card scenario-card-combined ${activeScenarioView === "combined" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("combined")}
+                >
+                  <div className="scenario-card-title">Combined</div>
+                  <div className="scenario-card-metrics">
+                    <div className="scenario-card-row">
+                      <span>Scenarios</span>
+                      <span className="mono">3</span>
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Farms range</span>
+                      <span className="mono">
+                        {baseVals.sn14 != null && flooredVals.sn14 != null && roundedVals.sn14 != null
+                          ? `${formatNumber(flooredVals.sn14, { maximumFractionDigits: 2 })} – ${formatNumber(roundedVals.sn14, { maximumFractionDigits: 2 })}`
+                          : "—"}
                       </span>
-                    )}
+                    </div>
+                    <div className="scenario-card-row">
+                      <span>Target Meat range</span>
+                      <span className="mono">
+                        {flooredVals.sn1 != null && roundedVals.sn1 != null
+                          ? `${formatNumber(flooredVals.sn1, { maximumFractionDigits: 3 })} – ${formatNumber(roundedVals.sn1, { maximumFractionDigits: 3 })} ${uomForSn1}`
+                          : "—"}
+                      </span>
+                    </div>
                   </div>
-                );
-              })}
-            </div>
-          )}
+                </button>
+              </div>
 
-          {activeResultsTab === "summary" && (
-            <div className="results-table">
-              <div className="results-header">
-                <span>Metric</span>
-                <span>UOM</span>
-                {activeScenarioView === "combined" ? (
-                  <>
-                    <span>Base</span>
-                    <span>Rounded</span>
-                    <span>Floored</span>
-                  </>
-                ) : (
-                  <span>Value</span>
-                )}
+              <div className="scenario-view-buttons">
+                <button
+                  type="button"
+                  className={`pill ${activeScenarioView === "base" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("base")}
+                >
+                  Base
+                </button>
+                <button
+                  type="button"
+                  className={`pill ${activeScenarioView === "rounded" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("rounded")}
+                >
+                  Rounded
+                </button>
+                <button
+                  type="button"
+                  className={`pill ${activeScenarioView === "floored" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("floored")}
+                >
+                  Floored
+                </button>
+                <button
+                  type="button"
+                  className={`pill ${activeScenarioView === "combined" ? "active" : ""}`}
+                  onClick={() => setActiveScenarioView("combined")}
+                >
+                  All Combined
+                </button>
               </div>
 
-              {[
-                { label: "Farms needed", uom: "farms", key: "sn14" as const, decimals: 2 },
-                { label: "Target Broiler Meat", uom: uomForSn1, key: "sn1" as const, decimals: 3 },
-                { label: "Placement per cycle", uom: "birds/cycle", key: "sn9" as const, decimals: 0 },
-                { label: "Harvest birds per year", uom: "birds/year", key: "sn3" as const, decimals: 0 },
-                { label: "Density", uom: "birds/m²", key: "sn13" as const, decimals: 2 }
-              ].map((metric) => {
-                const get = (which: "base" | "rounded" | "floored") => {
-                  const src =
-                    which === "base"
-                      ? baseVals
-                      : which === "rounded"
-                        ? roundedVals
-                        : flooredVals;
-                  return formatNumber(
-                    (src as Record<string, number | null | undefined>)[metric.key] ?? undefined,
-                    { maximumFractionDigits: metric.decimals }
-                  );
-                };
+              <div className="results-tabs">
+                <button
+                  type="button"
+                  className={`tab ${activeResultsTab === "fullParameters" ? "active" : ""}`}
+                  onClick={() => setActiveResultsTab("fullParameters")}
+                >
+                  Full Parameters
+                </button>
+                <button
+                  type="button"
+                  className={`tab ${activeResultsTab === "summary" ? "active" : ""}`}
+                  onClick={() => setActiveResultsTab("summary")}
+                >
+                  Summary
+                </button>
+                <button
+                  type="button"
+                  className={`tab ${activeResultsTab === "sensitivity" ? "active" : ""}`}
+                  onClick={() => setActiveResultsTab("sensitivity")}
+                >
+                  Sensitivity
+                </button>
+              </div>
+
+              {activeResultsTab === "sensitivity" && (
+                <div className="sensitivity">
+                  <div className="form-grid">
+                    <div className="form-field">
+                      <label>
+                        Output
+                        <select
+                          value={sensitivityOutput}
+                          onChange={(e) =>
+                            setSensitivityOutput(e.target.value as BroilerOutputKey)
+                          }
+                        >
+                          {broilerOutputOptions.map((o) => (
+                            <option key={o.key} value={o.key}>
+                              {o.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    <div className="form-field">
+                      <label>
+                        Range
+                        <div className="input-with-unit">
+                          <NumberInput
+                            value={sensitivityRange}
+                            onChange={(value) =>
+                              setSensitivityRange(Math.min(99, Math.max(0, value ?? 0)))
+                            }
+                          />
+                          <span className="input-unit">± %</span>
+                        </div>
+                      </label>
+                    </div>
+                  </div>
+
+                  <TornadoChart analysis={sensitivity} />
+
+                  <div className="results-table">
+                    <div className="results-header">
+                      <span>Input (ranked by impact)</span>
+                      <span>Base</span>
+                      <span>At −{sensitivityRange}%</span>
+                      <span>At +{sensitivityRange}%</span>
+                      <span>Swing</span>
+                    </div>
+                    {sensitivity.rows.map((r) => (
+                      <div key={r.key} className="results-row">
+                        <span className="results-label">{r.label}</span>
+                        <span className="results-unit">
+                          {formatNumber(r.baseInput, { maximumFractionDigits: 3 })}
+                        </span>
+                        <span className="results-value">
+                          {formatNumber(r.lowOutput ?? undefined, { maximumFractionDigits: 3 })}
+                        </span>
+                        <span className="results-value">
+                          {formatNumber(r.highOutput ?? undefined, { maximumFractionDigits: 3 })}
+                        </span>
+                        <span className="results-value">
+                          {formatNumber(r.swing, { maximumFractionDigits: 3 })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {activeResultsTab === "fullParameters" && (
+                <>
+                  <div className="results-table">
+                    <div className="results-header">
+                      <span>Parameter</span>
+                      <span>UOM</span>
+                      {activeScenarioView === "combined" ? (
+                        <>
+                          <span>Base</span>
+                          <span>Rounded</span>
+                          <span>Floored</span>
+                        </>
+                      ) : (
+                        <span>Value</span>
+                      )}
+                    </div>
 
-                return (
-                  <div key={metric.key} className="results-row">
-                    <span className="results-label">{metric.label}</span>
-                    <span className="results-unit">{metric.uom}</span>
+                    {fullParametersRows.map((r) => {
+                      const decimals =
+                        r.key === "sn7"
+                          ? scenario.config.useFullCyclesOnly
+                            ? 0
+                            : 2
+                          : r.key === "sn13"
+                            ? 2
+                            : r.key === "sn14"
+                              ? 3
+                              : r.key === "sn2"
+                                ? 3
+                                : 0;
+
+                      const pick = (which: "base" | "rounded" | "floored") => {
+                        const value =
+                          which === "base" ? r.base : which === "rounded" ? r.rounded : r.floored;
+                        if (value == null) {
+                          return (
+                            <span className="results-blank" title={r.blankReasons[which]}>
+                              —
+                            </span>
+                          );
+                        }
+                        return formatNumber(value, { maximumFractionDigits: decimals });
+                      };
+
+                      return (
+                        <div key={r.key} className="results-row">
+                          <span className="results-label">{r.label}</span>
+                          <span className="results-unit">{r.uom}</span>
+                          {activeScenarioView === "combined" ? (
+                            <>
+                              <span className="results-value">{pick("base")}</span>
+                              <span className="results-value">{pick("rounded")}</span>
+                              <span className="results-value">{pick("floored")}</span>
+                            </>
+                          ) : (
+                            <span className="results-value">
+                              {activeScenarioView === "base"
+                                ? pick("base")
+                                : activeScenarioView === "rounded"
+                                  ? pick("rounded")
+                                  : pick("floored")}
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {blankNotes.length > 0 && (
+                    <div className="diagnostics-notes">
+                      <div className="diagnostics-notes-title">Why some cells are blank (—)</div>
+                      <ul className="diagnostics-list">
+                        {blankNotes.map((d) => (
+                          <li key={`${d.code}-${d.inputs.join("-")}-${d.message}`}>{d.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {activeResultsTab === "summary" && (
+                <div className="results-table">
+                  <div className="results-header">
+                    <span>Metric</span>
+                    <span>UOM</span>
                     {activeScenarioView === "combined" ? (
                       <>
-                        <span className="results-value">{get("base")}</span>
-                        <span className="results-value">{get("rounded")}</span>
-                        <span className="results-value">{get("floored")}</span>
+                        <span>Base</span>
+                        <span>Rounded</span>
+                        <span>Floored</span>
                       </>
                     ) : (
-                      <span className="results-value">
-                        {activeScenarioView === "base"
-                          ? get("base")
-                          : activeScenarioView === "rounded"
-                            ? get("rounded")
-                            : get("floored")}
-                      </span>
+                      <span>Value</span>
                     )}
                   </div>
-                );
-              })}
-            </div>
+
+                  {summaryMetrics.map((metric) => {
+                    const get = (which: "base" | "rounded" | "floored") =>
+                      formatNumber(metric[which] ?? undefined, {
+                        maximumFractionDigits: metric.decimals
+                      });
+
+                    return (
+                      <div key={metric.label} className="results-row">
+                        <span className="results-label">{metric.label}</span>
+                        <span className="results-unit">{metric.uom}</span>
+                        {activeScenarioView === "combined" ? (
+                          <>
+                            <span className="results-value">{get("base")}</span>
+                            <span className="results-value">{get("rounded")}</span>
+                            <span className="results-value">{get("floored")}</span>
+                          </>
+                        ) : (
+                          <span className="results-value">
+                            {activeScenarioView === "base"
+                              ? get("base")
+                              : activeScenarioView === "rounded"
+                                ? get("rounded")
+                                : get("floored")}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </Card>
+          )}
+
+          {activeStep === "assumptions" && (
+            <GoalSeekPanel
+              scenario={scenario}
+              horizon={horizon}
+              onApply={(key, value) =>
+                editor.edit((prev) => ({
+                  ...prev,
+                  inputs: { ...prev.inputs, [key]: value }
+                }))
+              }
+            />
+          )}
+
+          {activeStep === "assumptions" && (
+            <MonteCarloPanel scenario={scenario} horizon={horizon} />
+          )}
+
+          {activeStep === "assumptions" && (
+            <CalendarPanel scenario={scenario} results={results} />
+          )}
+
+          {activeStep === "save" && (
+            <ScenarioReview
+              scenario={scenario}
+              results={results}
+              fullParametersRows={fullParametersRows}
+              unitsModeLabel={unitsModeLabel(scenario.config.unitsMode)}
+              isSaved={library.some((s) => s.id === scenario.id)}
+              revisionNote={revisionNote}
+              onRevisionNoteChange={setRevisionNote}
+              onSave={handleSaveScenario}
+              onDiscard={handleDiscardChanges}
+            />
+          )}
+        </div>
+
+        <div className="wizard-nav">
+          <button
+            type="button"
+            className="btn btn-secondary"
+            disabled={activeStepIndex === 0}
+            onClick={() => handleStepSelect(activeStepIndex - 1)}
+          >
+            Back
+          </button>
+          {Object.keys(validationErrors).length > 0 &&
+            activeBlockingErrors.length > 0 && (
+              <ul className="wizard-issues">
+                {activeBlockingErrors.map((issue) => (
+                  <li key={issue.field}>
+                    {fieldLabels[issue.field] ?? issue.field}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          {activeStepIndex < wizardSteps.length - 1 && (
+            <button type="button" className="btn btn-primary" onClick={handleNextStep}>
+              Next: {wizardSteps[activeStepIndex + 1].label}
+            </button>
           )}
-        </Card>
-      </div>
-    </main>
+        </div>
+      </main>
+    </>
   );
 };
 
@@ -0,0 +1,134 @@
+import type React from "react";
+import { useState } from "react";
+import { Card } from "../../components/Card";
+import { collisionPolicyLabels } from "./bundle";
+import type { BundlePreview, CollisionPolicy } from "./bundle";
+import { computeBroilerResults, formatNumber } from "./calculations";
+
+interface BundleImportPreviewProps {
+  fileName: string;
+  preview: BundlePreview;
+  onImport: (policy: CollisionPolicy) => void;
+  onCancel: () => void;
+}
+
+export const BundleImportPreview: React.FC<BundleImportPreviewProps> = ({
+  fileName,
+  preview,
+  onImport,
+  onCancel
+}) => {
+  const [policy, setPolicy] = useState<CollisionPolicy>("keepBoth");
+  const collisions = preview.entries.filter((e) => e.existing).length;
+  const importCount =
+    policy === "skip" ? preview.entries.length - collisions : preview.entries.length;
+
+  return (
+    <Card
+      title={`Import ${fileName}`}
+      actions={
+        <>
+          <button type="button" className="btn btn-secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={importCount === 0}
+            onClick={() => onImport(policy)}
+          >
+            Import {importCount} {importCount === 1 ? "scenario" : "scenarios"}
+          </button>
+        </>
+      }
+    >
+      {preview.rejected.length > 0 && (
+        <div className="banner banner-warning">
+          {preview.rejected.length}{" "}
+          {preview.rejected.length === 1 ? "record is" : "records are"} invalid and
+          will not be imported:
+          <ul className="diagnostics-list">
+            {preview.rejected.map((r) => (
+              <li key={r.index}>
+                {r.name || `Record ${r.index + 1}`}: {r.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {collisions > 0 && (
+        <div className="form-grid">
+          <div className="form-field">
+            <label>
+              {collisions} {collisions === 1 ? "scenario is" : "scenarios are"} already
+              in the library
+              <select
+                value={policy}
+                onChange={(e) => setPolicy(e.target.value as CollisionPolicy)}
+              >
+                {(Object.keys(collisionPolicyLabels) as CollisionPolicy[]).map((key) => (
+                  <option key={key} value={key}>
+                    {collisionPolicyLabels[key]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {preview.entries.length === 0 ? (
+        <div className="field-hint">The file contains no scenarios that can be imported.</div>
+      ) : (
+        <div className="library-table">
+          <div className="library-header">
+            <span>Scenario</span>
+            <span>Last saved</span>
+            <span>Farms</span>
+            <span>Placement/cycle</span>
+            <span>Status</span>
+          </div>
+          {preview.entries.map(({ scenario, existing }) => {
+            const results = computeBroilerResults(scenario.inputs, scenario.config, {
+              timeHorizon: scenario.timeHorizon,
+              customDays: scenario.customDays
+            });
+            return (
+              <div key={scenario.id} className="library-row">
+                <span className="library-name">
+                  <span className="library-title">
+                    {scenario.name || "Untitled scenario"}
+                  </span>
+                  {scenario.description && (
+                    <span className="library-description">{scenario.description}</span>
+                  )}
+                </span>
+                <span className="results-unit">
+                  {new Date(scenario.updatedAt).toLocaleString()}
+                </span>
+                <span className="mono">
+                  {formatNumber(results.sn14NumberOfFarms, { maximumFractionDigits: 2 })}
+                </span>
+                <span className="mono">
+                  {formatNumber(results.sn9PlacementPerCycle, { maximumFractionDigits: 0 })}
+                </span>
+                <span className="results-unit">
+                  {!existing
+                    ? "New"
+                    : policy === "skip"
+                      ? "Skipped"
+                      : policy === "replace"
+                        ? `Replaces the library copy saved ${new Date(
+                            existing.updatedAt
+                          ).toLocaleString()}`
+                        : "Imported as a copy"}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
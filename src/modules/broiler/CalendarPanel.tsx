@@ -0,0 +1,285 @@
+import type React from "react";
+import { useMemo, useState } from "react";
+import { Card } from "../../components/Card";
+import {
+  buildPlacementSchedule,
+  daysBetween,
+  laneLabel,
+  scheduleToCsv,
+  scheduleToIcs,
+  staggerStrategyLabels,
+  toDateInput
+} from "./calendar";
+import type { CalendarOptions, ScheduleUnit, StaggerStrategy } from "./calendar";
+import { formatNumber } from "./calculations";
+import { NumberInput } from "./NumberInput";
+import type { BroilerResults, BroilerScenario } from "./types";
+
+interface CalendarPanelProps {
+  scenario: BroilerScenario;
+  results: BroilerResults;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    day: "numeric",
+    month: "short",
+    year: "numeric"
+  });
+
+function downloadText(content: string, type: string, fileName: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const CalendarPanel: React.FC<CalendarPanelProps> = ({ scenario, results }) => {
+  const [options, setOptions] = useState<CalendarOptions>(() => ({
+    startDate: toDateInput(new Date()),
+    cleanoutDays: 14,
+    stagger: "even",
+    intervalDays: 7,
+    unit: "farm"
+  }));
+  const update = (patch: Partial<CalendarOptions>) =>
+    setOptions((prev) => ({ ...prev, ...patch }));
+
+  const result = useMemo(
+    () => buildPlacementSchedule(scenario, results, options),
+    [scenario, results, options]
+  );
+
+  const composed = scenario.config.composeCycleTime;
+  const schedule = result.ok ? result.schedule : null;
+  // Timeline positions as a share of the horizon, clipped to its last day
+  const totalDays = schedule ? daysBetween(schedule.start, schedule.end) + 1 : 1;
+  const dayOf = (date: Date) =>
+    schedule ? Math.min(Math.max(daysBetween(schedule.start, date), 0), totalDays) : 0;
+  const at = (date: Date) => `${(dayOf(date) / totalDays) * 100}%`;
+  const span = (from: Date, to: Date) => `${((dayOf(to) - dayOf(from)) / totalDays) * 100}%`;
+
+  // Month ticks; beyond about a year only quarters are labelled
+  const months: Date[] = [];
+  if (schedule) {
+    const first = schedule.start;
+    for (
+      let month = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 1));
+      month <= schedule.end;
+      month = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1))
+    ) {
+      months.push(month);
+    }
+  }
+  const maxWeekly = schedule ? Math.max(...schedule.weeklyHarvest.map((w) => w.birds), 0) : 0;
+  const fileBase = `broiler_calendar_${options.startDate}`;
+
+  return (
+    <Card
+      title="Placement Calendar"
+      actions={
+        schedule && (
+          <>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() =>
+                downloadText(
+                  scheduleToCsv(schedule),
+                  "text/csv;charset=utf-8;",
+                  `${fileBase}.csv`
+                )
+              }
+            >
+              Download CSV
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() =>
+                downloadText(
+                  scheduleToIcs(schedule, scenario),
+                  "text/calendar;charset=utf-8;",
+                  `${fileBase}.ics`
+                )
+              }
+            >
+              Download .ics
+            </button>
+          </>
+        )
+      }
+    >
+      <div className="field-hint">
+        Placement and harvest dates per farm over the horizon. Each cycle of SN6
+        days ends with the cleanout before the next placement
+        {composed && ", taken from the grow-out age and cleanout in the broiler inputs"}.
+      </div>
+      <div className="form-grid goal-seek-grid">
+        <div className="form-field">
+          <label>
+            First placement
+            <input
+              type="date"
+              value={options.startDate}
+              onChange={(e) => update({ startDate: e.target.value })}
+            />
+          </label>
+        </div>
+        {!composed && (
+          <div className="form-field">
+            <label>
+              Cleanout and downtime
+              <div className="input-with-unit">
+                <NumberInput
+                  value={options.cleanoutDays}
+                  onChange={(value) => update({ cleanoutDays: value ?? NaN })}
+                />
+                <span className="input-unit">days</span>
+              </div>
+            </label>
+          </div>
+        )}
+        <div className="form-field">
+          <label>
+            Schedule by
+            <select
+              value={options.unit}
+              onChange={(e) => update({ unit: e.target.value as ScheduleUnit })}
+            >
+              <option value="farm">Farm</option>
+              <option value="house">House</option>
+            </select>
+          </label>
+        </div>
+        <div className="form-field">
+          <label>
+            Staggering
+            <select
+              value={options.stagger}
+              onChange={(e) => update({ stagger: e.target.value as StaggerStrategy })}
+            >
+              {(Object.keys(staggerStrategyLabels) as StaggerStrategy[]).map((key) => (
+                <option key={key} value={key}>
+                  {staggerStrategyLabels[key]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {options.stagger === "interval" && (
+          <div className="form-field">
+            <label>
+              Interval
+              <div className="input-with-unit">
+                <NumberInput
+                  value={options.intervalDays}
+                  onChange={(value) => update({ intervalDays: value ?? NaN })}
+                />
+                <span className="input-unit">days</span>
+              </div>
+            </label>
+          </div>
+        )}
+      </div>
+
+      {!result.ok && <div className="banner banner-warning goal-seek-result">{result.reason}</div>}
+
+      {schedule && (
+        <>
+          <div className="field-hint goal-seek-result">
+            {formatDate(schedule.start)} – {formatDate(schedule.end)}:{" "}
+            {formatNumber(
+              schedule.lanes.reduce((sum, lane) => sum + lane.cycles.length, 0)
+            )}{" "}
+            cycles harvesting{" "}
+            {formatNumber(schedule.totalHarvested, { maximumFractionDigits: 0 })} birds
+            {results.sn3HarvestBirdsNumber != null &&
+              ` (SN3 plans ${formatNumber(results.sn3HarvestBirdsNumber, {
+                maximumFractionDigits: 0
+              })})`}
+            .
+          </div>
+          {schedule.shortfall >= 1 && (
+            <div className="banner banner-warning goal-seek-result">
+              {formatNumber(schedule.shortfall, { maximumFractionDigits: 0 })} birds short of
+              SN3: cycles not harvested by the end of the horizon are left out
+              {options.stagger !== "none" &&
+                ", and staggered farms start later so fit fewer cycles"}
+              .
+            </div>
+          )}
+
+          <div className="gantt">
+            <div className="gantt-row gantt-axis-row">
+              <span />
+              <div className="gantt-track">
+                {months.map((month) => (
+                  <span key={month.getTime()} className="gantt-tick" style={{ left: at(month) }}>
+                    {(totalDays <= 400 || month.getUTCMonth() % 3 === 0) &&
+                      month.toLocaleDateString(undefined, {
+                        timeZone: "UTC",
+                        month: "short",
+                        ...(month.getUTCMonth() === 0 ? { year: "numeric" } : {})
+                      })}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {schedule.lanes.map((lane) => (
+              <div key={lane.id} className="gantt-row">
+                <span className="gantt-label">{laneLabel(lane)}</span>
+                <div className="gantt-track">
+                  {lane.cycles.map((c) => (
+                    <div key={c.cycle}>
+                      <div
+                        className="gantt-bar gantt-bar-grow"
+                        style={{ left: at(c.placement), width: span(c.placement, c.harvest) }}
+                        title={`Cycle ${c.cycle}: placed ${formatDate(
+                          c.placement
+                        )}, harvested ${formatDate(c.harvest)} (${formatNumber(
+                          c.birdsHarvested,
+                          { maximumFractionDigits: 0 }
+                        )} birds)`}
+                      />
+                      <div
+                        className="gantt-bar gantt-bar-cleanout"
+                        style={{ left: at(c.harvest), width: span(c.harvest, c.readyAgain) }}
+                        title={`Cleanout until ${formatDate(c.readyAgain)}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="results-subtitle goal-seek-result">Birds harvested per week</div>
+          <div className="weekly-chart">
+            {schedule.weeklyHarvest.map((w) => (
+              <div
+                key={w.weekStart.getTime()}
+                className="weekly-bar"
+                style={{ height: `${maxWeekly > 0 ? (w.birds / maxWeekly) * 100 : 0}%` }}
+                title={`Week of ${formatDate(w.weekStart)}: ${formatNumber(w.birds, {
+                  maximumFractionDigits: 0
+                })} birds`}
+              />
+            ))}
+          </div>
+          <div className="weekly-axis results-unit">
+            <span>{formatDate(schedule.weeklyHarvest[0]?.weekStart ?? schedule.start)}</span>
+            <span>
+              Peak {formatNumber(maxWeekly, { maximumFractionDigits: 0 })} birds/week
+            </span>
+            <span>{formatDate(schedule.end)}</span>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,22 @@
+import type React from "react";
+import type { BroilerResults } from "./types";
+
+interface DiagnosticsBannerProps {
+  results: BroilerResults;
+}
+
+// Lists errors and warnings from the calculation; empty-input notes are left
+// to the blank result cells.
+export const DiagnosticsBanner: React.FC<DiagnosticsBannerProps> = ({ results }) => {
+  const shown = results.diagnostics.filter((d) => d.severity !== "info");
+  if (shown.length === 0) return null;
+  return (
+    <div className="banner banner-warning">
+      <ul className="diagnostics-list">
+        {shown.map((d) => (
+          <li key={`${d.code}-${d.inputs.join("-")}-${d.message}`}>{d.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import type React from "react";
+import { useState } from "react";
+import { Card } from "../../components/Card";
+import {
+  broilerOutputOptions,
+  formatNumber,
+  goalSeek,
+  inputIsEntered
+} from "./calculations";
+import type { BroilerOutputKey, GoalSeekResult } from "./calculations";
+import { NumberInput } from "./NumberInput";
+import type { BroilerHorizon, BroilerInputs, BroilerScenario } from "./types";
+
+interface GoalSeekPanelProps {
+  scenario: BroilerScenario;
+  horizon: BroilerHorizon;
+  onApply: (key: keyof BroilerInputs, value: number) => void;
+}
+
+const variableOptions: { key: keyof BroilerInputs; label: string }[] = [
+  { key: "sn1TargetBroilerMeat", label: "SN1 · Target Broiler Meat" },
+  { key: "sn2HarvestBirdAvgWeight", label: "SN2 · Harvest Birds Average Weight" },
+  { key: "sn4PlannedMortality", label: "SN4 · Planned Mortality" },
+  { key: "sn6CycleTimeDays", label: "SN6 · Broiler Cycle Time" },
+  { key: "growOutDays", label: "Grow-out Age at Harvest" },
+  { key: "cleanoutDays", label: "Cleanout Days" },
+  { key: "downtimeDays", label: "Downtime Buffer" },
+  { key: "sn10FarmCapacity", label: "SN10 · Broiler Farm Capacity" },
+  { key: "sn11NumberOfHouses", label: "SN11 · Broiler No. of Houses" },
+  { key: "sn12HouseArea", label: "SN12 · Broiler House Area" },
+  { key: "yieldPercent", label: "Yield %" }
+];
+
+export const GoalSeekPanel: React.FC<GoalSeekPanelProps> = ({
+  scenario,
+  horizon,
+  onApply
+}) => {
+  const options = variableOptions.filter((o) =>
+    inputIsEntered(o.key, scenario.config)
+  );
+  const [chosen, setVariable] = useState<keyof BroilerInputs>("sn6CycleTimeDays");
+  // Falls back to the first option when the chosen input stops applying
+  const variable = options.some((o) => o.key === chosen) ? chosen : options[0].key;
+  const [output, setOutput] = useState<BroilerOutputKey>("sn14NumberOfFarms");
+  const [target, setTarget] = useState<number | null>(null);
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  const handleSolve = () => {
+    const numericTarget = target ?? NaN;
+    setResult(
+      goalSeek({
+        inputs: scenario.inputs,
+        config: scenario.config,
+        horizon,
+        variable,
+        output,
+        target: numericTarget
+      })
+    );
+  };
+
+  return (
+    <Card title="Goal Seek">
+      <div className="field-hint">
+        Keep every other input fixed and solve for one input that reaches a
+        target result.
+      </div>
+      <div className="form-grid goal-seek-grid">
+        <div className="form-field">
+          <label>
+            Solve for
+            <select
+              value={variable}
+              onChange={(e) => {
+                setVariable(e.target.value as keyof BroilerInputs);
+                setResult(null);
+              }}
+            >
+              {options.map((o) => (
+                <option key={o.key} value={o.key}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="form-field">
+          <label>
+            So that
+            <select
+              value={output}
+              onChange={(e) => {
+                setOutput(e.target.value as BroilerOutputKey);
+                setResult(null);
+              }}
+            >
+              {broilerOutputOptions.map((o) => (
+                <option key={o.key} value={o.key}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="form-field">
+          <label>
+            Equals
+            <NumberInput
+              value={target}
+              onChange={(value) => {
+                setTarget(value);
+                setResult(null);
+              }}
+            />
+          </label>
+        </div>
+      </div>
+      <button type="button" className="btn btn-secondary" onClick={handleSolve}>
+        Solve
+      </button>
+
+      {result?.status === "infeasible" && (
+        <div className="banner banner-warning goal-seek-result">
+          No feasible solution. {result.reason}
+        </div>
+      )}
+      {result?.status === "solved" && (
+        <div className="banner goal-seek-result">
+          <span>
+            {variableOptions.find((o) => o.key === variable)?.label} ={" "}
+            <strong className="mono">
+              {formatNumber(result.value, { maximumFractionDigits: 4 })}
+            </strong>{" "}
+            gives{" "}
+            <span className="mono">
+              {formatNumber(result.achieved, { maximumFractionDigits: 4 })}
+            </span>
+            {!result.exact &&
+              " (closest reachable value; this output changes in steps)"}
+          </span>
+          <button
+            type="button"
+            className="pill"
+            onClick={() => onApply(variable, result.value)}
+          >
+            Apply to inputs
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,105 @@
+import type React from "react";
+import { formatNumber } from "./calculations";
+import type { GrowthCurve, GrowthPoint } from "./types";
+
+interface GrowthCurveChartProps {
+  curve: GrowthCurve;
+  // Harvest point to mark on the curve, if known
+  harvest?: GrowthPoint;
+}
+
+const WIDTH = 600;
+const HEIGHT = 260;
+const MARGIN = { top: 12, right: 16, bottom: 32, left: 48 };
+
+// Round step (1, 2 or 5 × 10ⁿ) giving about `count` ticks up to `max`
+function tickStep(max: number, count: number): number {
+  const raw = max / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= raw) ?? 10;
+  return step * magnitude;
+}
+
+const ticks = (max: number, step: number) =>
+  Array.from({ length: Math.floor(max / step + 1e-9) + 1 }, (_, i) => i * step);
+
+// Weight against age, drawn as straight segments between the table points
+// (the same interpolation the model uses), with the harvest point marked.
+export const GrowthCurveChart: React.FC<GrowthCurveChartProps> = ({ curve, harvest }) => {
+  const last = curve.points[curve.points.length - 1];
+  const ageStep = last.ageDays <= 70 ? 7 : tickStep(last.ageDays, 8);
+  const weightStep = tickStep(last.weightKg, 5);
+  const maxAge = Math.ceil(last.ageDays / ageStep) * ageStep;
+  const maxWeight = Math.ceil(last.weightKg / weightStep) * weightStep;
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (age: number) => MARGIN.left + (age / maxAge) * plotWidth;
+  const y = (weight: number) => MARGIN.top + plotHeight - (weight / maxWeight) * plotHeight;
+  const bottom = MARGIN.top + plotHeight;
+  // Near the right edge the harvest label goes above and to the left, clear
+  // of the rising curve
+  const nearEnd = harvest != null && harvest.ageDays > maxAge * 0.6;
+
+  return (
+    <svg
+      className="growth-chart"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label={`${curve.name}: body weight by age`}
+    >
+      {ticks(maxWeight, weightStep).map((w) => (
+        <g key={`w${w}`}>
+          <line className="growth-grid" x1={MARGIN.left} x2={x(maxAge)} y1={y(w)} y2={y(w)} />
+          <text className="growth-tick" x={MARGIN.left - 6} y={y(w)} textAnchor="end" dy="0.32em">
+            {formatNumber(w, { maximumFractionDigits: 2 })}
+          </text>
+        </g>
+      ))}
+      {ticks(maxAge, ageStep).map((age) => (
+        <text key={`a${age}`} className="growth-tick" x={x(age)} y={bottom + 16} textAnchor="middle">
+          {formatNumber(age)}
+        </text>
+      ))}
+      <line className="growth-axis" x1={MARGIN.left} x2={x(maxAge)} y1={bottom} y2={bottom} />
+      <line className="growth-axis" x1={MARGIN.left} x2={MARGIN.left} y1={MARGIN.top} y2={bottom} />
+      <text className="growth-tick" x={x(maxAge)} y={HEIGHT - 2} textAnchor="end">
+        age (days)
+      </text>
+      <text className="growth-tick" x={4} y={MARGIN.top - 2}>
+        kg
+      </text>
+
+      <polyline
+        className="growth-line"
+        points={curve.points.map((p) => `${x(p.ageDays)},${y(p.weightKg)}`).join(" ")}
+      />
+
+      {harvest && (
+        <g>
+          <polyline
+            className="growth-guide"
+            points={`${MARGIN.left},${y(harvest.weightKg)} ${x(harvest.ageDays)},${y(
+              harvest.weightKg
+            )} ${x(harvest.ageDays)},${bottom}`}
+          />
+          <circle
+            className="growth-marker"
+            cx={x(harvest.ageDays)}
+            cy={y(harvest.weightKg)}
+            r={5}
+          />
+          <text
+            className="growth-label"
+            x={x(harvest.ageDays) + (nearEnd ? -8 : 8)}
+            y={y(harvest.weightKg) + (nearEnd ? -10 : 16)}
+            textAnchor={nearEnd ? "end" : "start"}
+          >
+            {formatNumber(harvest.ageDays, { maximumFractionDigits: 1 })} days,{" "}
+            {formatNumber(harvest.weightKg, { maximumFractionDigits: 3 })} kg
+          </text>
+        </g>
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,160 @@
+import type React from "react";
+import { useState } from "react";
+import { Card } from "../../components/Card";
+import { formatNumber } from "./calculations";
+import { GrowthCurveChart } from "./GrowthCurveChart";
+import { growthCurvePresets, parseGrowthCurveCsv } from "./growth";
+import type { GrowthWeightUnit } from "./growth";
+import type { BroilerConfig, BroilerResults, BroilerScenario, GrowthDerive } from "./types";
+
+interface GrowthCurvePanelProps {
+  scenario: BroilerScenario;
+  results: BroilerResults;
+  // Validation message for the curve, if any
+  error?: string;
+  onConfigChange: (patch: Partial<BroilerConfig>) => void;
+}
+
+export const GrowthCurvePanel: React.FC<GrowthCurvePanelProps> = ({
+  scenario,
+  results,
+  error,
+  onConfigChange
+}) => {
+  const [unit, setUnit] = useState<GrowthWeightUnit>("g");
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const { growthCurve: curve, growthDerive, composeCycleTime } = scenario.config;
+  const uploaded = curve && !growthCurvePresets.some((p) => p.id === curve.id) ? curve : null;
+  const outside = results.diagnostics.find((d) => d.code === "outsideGrowthCurve");
+  const point = results.growthPoint;
+
+  // Linking a curve breaks the cycle time down, as it feeds the grow-out age
+  const selectCurve = (id: string) => {
+    setUploadError(null);
+    if (id === "none") {
+      onConfigChange({ growthCurve: null });
+      return;
+    }
+    const next = growthCurvePresets.find((p) => p.id === id) ?? uploaded;
+    if (next) onConfigChange({ growthCurve: next, composeCycleTime: true });
+  };
+
+  const handleUpload = async (file: File) => {
+    const parsed = parseGrowthCurveCsv(
+      await file.text(),
+      file.name.replace(/\.[^.]+$/, ""),
+      unit
+    );
+    if (parsed.ok) {
+      setUploadError(null);
+      onConfigChange({ growthCurve: parsed.curve, composeCycleTime: true });
+    } else {
+      setUploadError(`${file.name}: ${parsed.reason}`);
+    }
+  };
+
+  return (
+    <Card
+      title="Growth Curve"
+      actions={
+        <label className="btn btn-secondary">
+          Upload curve
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      }
+    >
+      <div className="field-hint">
+        Links SN2 with the age at harvest, so heavier birds take more days. Upload
+        a CSV with the age in days and the body weight on each line.
+      </div>
+      <div className="form-grid goal-seek-grid">
+        <div className={`form-field ${error ? "field-flagged" : ""}`}>
+          <label>
+            Curve
+            <select value={curve?.id ?? "none"} onChange={(e) => selectCurve(e.target.value)}>
+              <option value="none">None (enter both)</option>
+              {growthCurvePresets.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+              {uploaded && <option value={uploaded.id}>{uploaded.name} (uploaded)</option>}
+            </select>
+          </label>
+          {error && <div className="field-error">{error}</div>}
+        </div>
+        <div className="form-field">
+          <label>
+            Derive
+            <select
+              value={growthDerive}
+              disabled={!curve}
+              onChange={(e) => onConfigChange({ growthDerive: e.target.value as GrowthDerive })}
+            >
+              <option value="age">Grow-out age from SN2 weight</option>
+              <option value="weight">SN2 weight from grow-out age</option>
+            </select>
+          </label>
+        </div>
+        <div className="form-field">
+          <label>
+            Uploaded weights in
+            <select value={unit} onChange={(e) => setUnit(e.target.value as GrowthWeightUnit)}>
+              <option value="g">grams</option>
+              <option value="kg">kg</option>
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {uploadError && <div className="banner banner-warning goal-seek-result">{uploadError}</div>}
+
+      {curve && !composeCycleTime && (
+        <div className="banner banner-warning goal-seek-result">
+          <span>The curve feeds the grow-out age, so it is unused while SN6 is entered whole.</span>
+          <button
+            type="button"
+            className="pill"
+            onClick={() => onConfigChange({ composeCycleTime: true })}
+          >
+            Break down cycle time
+          </button>
+        </div>
+      )}
+
+      {curve && (
+        <>
+          {outside && (
+            <div className="banner banner-warning goal-seek-result">{outside.message}</div>
+          )}
+          {point && (
+            <div className="field-hint goal-seek-result">
+              Harvest at{" "}
+              <span className="mono">
+                {formatNumber(point.ageDays, { maximumFractionDigits: 1 })}
+              </span>{" "}
+              days and{" "}
+              <span className="mono">
+                {formatNumber(point.weightKg, { maximumFractionDigits: 3 })}
+              </span>{" "}
+              kg/bird
+              {growthDerive === "age"
+                ? "; the grow-out age follows SN2."
+                : "; SN2 follows the grow-out age."}
+            </div>
+          )}
+          <GrowthCurveChart curve={curve} harvest={point} />
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,266 @@
+import type React from "react";
+import { useState } from "react";
+import { Card } from "../../components/Card";
+import { broilerOutputOptions, formatNumber, inputIsEntered } from "./calculations";
+import { runMonteCarlo } from "./monteCarlo";
+import { NumberInput } from "./NumberInput";
+import type {
+  InputDistribution,
+  InputDistributions,
+  MonteCarloResult
+} from "./monteCarlo";
+import type { BroilerHorizon, BroilerInputs, BroilerScenario } from "./types";
+
+interface MonteCarloPanelProps {
+  scenario: BroilerScenario;
+  horizon: BroilerHorizon;
+}
+
+const simulatedFields: { key: keyof BroilerInputs; label: string }[] = [
+  { key: "sn1TargetBroilerMeat", label: "SN1 · Target Broiler Meat" },
+  { key: "sn2HarvestBirdAvgWeight", label: "SN2 · Harvest Birds Average Weight" },
+  { key: "sn4PlannedMortality", label: "SN4 · Planned Mortality" },
+  { key: "sn6CycleTimeDays", label: "SN6 · Broiler Cycle Time" },
+  { key: "growOutDays", label: "Grow-out Age at Harvest" },
+  { key: "cleanoutDays", label: "Cleanout Days" },
+  { key: "downtimeDays", label: "Downtime Buffer" },
+  { key: "sn10FarmCapacity", label: "SN10 · Broiler Farm Capacity" },
+  { key: "sn11NumberOfHouses", label: "SN11 · Broiler No. of Houses" },
+  { key: "sn12HouseArea", label: "SN12 · Broiler House Area" },
+  { key: "yieldPercent", label: "Yield %" }
+];
+
+const MAX_ITERATIONS = 50000;
+
+// Starting parameters for a newly chosen distribution: ±10% around the
+// current input value.
+function defaultDistribution(
+  kind: InputDistribution["kind"],
+  value: number | null
+): InputDistribution {
+  const v = value ?? 0;
+  const spread = Math.abs(v) * 0.1;
+  switch (kind) {
+    case "uniform":
+      return { kind, min: v - spread, max: v + spread };
+    case "triangular":
+      return { kind, min: v - spread, mode: v, max: v + spread };
+    case "normal":
+      return { kind, mean: v, stdDev: spread / 2, min: v - spread, max: v + spread };
+    default:
+      return { kind: "fixed" };
+  }
+}
+
+const parameterLabels: Record<string, string> = {
+  min: "Min",
+  max: "Max",
+  mode: "Most likely",
+  mean: "Mean",
+  stdDev: "Std dev"
+};
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({
+  scenario,
+  horizon
+}) => {
+  const [distributions, setDistributions] = useState<InputDistributions>({});
+  const [iterations, setIterations] = useState<number>(5000);
+  const [seed, setSeed] = useState<number>(1);
+  const [availableFarms, setAvailableFarms] = useState<number | null>(null);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+
+  const setKind = (key: keyof BroilerInputs, kind: InputDistribution["kind"]) => {
+    setDistributions((prev) => ({
+      ...prev,
+      [key]: defaultDistribution(kind, scenario.inputs[key])
+    }));
+  };
+
+  const setParameter = (key: keyof BroilerInputs, param: string, value: number | null) => {
+    setDistributions((prev) => {
+      const current = prev[key];
+      if (!current || current.kind === "fixed") return prev;
+      return { ...prev, [key]: { ...current, [param]: value ?? 0 } };
+    });
+  };
+
+  const handleRun = () => {
+    setResult(
+      runMonteCarlo({
+        inputs: scenario.inputs,
+        config: scenario.config,
+        horizon,
+        distributions,
+        iterations: Math.min(MAX_ITERATIONS, Math.max(1, iterations)),
+        seed,
+        availableFarms
+      })
+    );
+  };
+
+  const fields = simulatedFields.filter((field) =>
+    inputIsEntered(field.key, scenario.config)
+  );
+  const maxBinCount = result
+    ? Math.max(1, ...result.histogram.map((b) => b.count))
+    : 1;
+
+  return (
+    <Card title="Monte Carlo Simulation">
+      <div className="field-hint">
+        Attach a distribution to uncertain inputs. Runs are seeded, so the same
+        seed always reproduces the same results.
+      </div>
+
+      <div className="results-table">
+        {fields.map((field) => {
+          const distribution = distributions[field.key] ?? { kind: "fixed" };
+          return (
+            <div key={field.key} className="mc-row">
+              <span className="results-label">{field.label}</span>
+              <select
+                value={distribution.kind}
+                onChange={(e) =>
+                  setKind(field.key, e.target.value as InputDistribution["kind"])
+                }
+              >
+                <option value="fixed">
+                  Fixed ({formatNumber(scenario.inputs[field.key] ?? undefined, {
+                    maximumFractionDigits: 3
+                  })})
+                </option>
+                <option value="uniform">Uniform</option>
+                <option value="triangular">Triangular</option>
+                <option value="normal">Normal (bounded)</option>
+              </select>
+              <span className="mc-params">
+                {Object.entries(distribution)
+                  .filter(([param]) => param !== "kind")
+                  .map(([param, value]) => (
+                    <label key={param}>
+                      {parameterLabels[param] ?? param}
+                      <NumberInput
+                        value={value as number}
+                        onChange={(next) => setParameter(field.key, param, next)}
+                      />
+                    </label>
+                  ))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="form-grid mc-settings">
+        <div className="form-field">
+          <label>
+            Simulations
+            <NumberInput
+              value={iterations}
+              onChange={(value) => setIterations(value ?? 0)}
+            />
+          </label>
+        </div>
+        <div className="form-field">
+          <label>
+            Seed
+            <NumberInput
+              value={seed}
+              onChange={(value) => setSeed(Math.floor(value ?? 0))}
+            />
+          </label>
+        </div>
+        <div className="form-field">
+          <label>
+            Farms available
+            <NumberInput value={availableFarms} onChange={setAvailableFarms} />
+          </label>
+        </div>
+      </div>
+      <button type="button" className="btn btn-secondary" onClick={handleRun}>
+        Run simulation
+      </button>
+
+      {result && (
+        <>
+          {result.failedRuns > 0 && (
+            <div className="banner banner-warning mc-banner">
+              {result.failedRuns} of {result.iterations} runs could not be
+              calculated and were left out.
+            </div>
+          )}
+          {result.probabilityExceedsFarms != null && (
+            <div className="banner mc-banner">
+              Probability that required farms exceed {availableFarms}:{" "}
+              <strong>
+                {formatNumber(result.probabilityExceedsFarms * 100, {
+                  maximumFractionDigits: 1
+                })}
+                %
+              </strong>
+            </div>
+          )}
+
+          <div className="results-table">
+            <div className="results-header">
+              <span>Output</span>
+              <span>P10</span>
+              <span>P50</span>
+              <span>P90</span>
+              <span>Mean</span>
+            </div>
+            {broilerOutputOptions.map((o) => {
+              const summary = result.summaries[o.key];
+              return (
+                <div key={o.key} className="results-row">
+                  <span className="results-label">{o.label}</span>
+                  <span className="results-value">
+                    {formatNumber(summary?.p10, { maximumFractionDigits: 2 })}
+                  </span>
+                  <span className="results-value">
+                    {formatNumber(summary?.p50, { maximumFractionDigits: 2 })}
+                  </span>
+                  <span className="results-value">
+                    {formatNumber(summary?.p90, { maximumFractionDigits: 2 })}
+                  </span>
+                  <span className="results-value">
+                    {formatNumber(summary?.mean, { maximumFractionDigits: 2 })}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mc-histogram-title">Distribution of required farms (SN14)</div>
+          <div className="mc-histogram">
+            {result.histogram.map((bin) => {
+              const exceeds = availableFarms != null && bin.from >= availableFarms;
+              return (
+                <div
+                  key={bin.from}
+                  className={`mc-bin ${exceeds ? "exceeds" : ""}`}
+                  style={{ height: `${(bin.count / maxBinCount) * 100}%` }}
+                  title={`${formatNumber(bin.from, { maximumFractionDigits: 2 })} – ${formatNumber(
+                    bin.to,
+                    { maximumFractionDigits: 2 }
+                  )}: ${bin.count} runs`}
+                />
+              );
+            })}
+          </div>
+          {result.histogram.length > 0 && (
+            <div className="mc-axis mono">
+              <span>{formatNumber(result.histogram[0].from, { maximumFractionDigits: 2 })}</span>
+              <span>
+                {formatNumber(result.histogram[result.histogram.length - 1].to, {
+                  maximumFractionDigits: 2
+                })}
+              </span>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
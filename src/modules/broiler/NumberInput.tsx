@@ -0,0 +1,62 @@
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { formatNumber } from "./calculations";
+import { activeNumberLocale, parseLocaleNumber } from "./numberLocale";
+
+interface NumberInputProps {
+  value: number | null | undefined;
+  // null when the field is empty or does not hold a number
+  onChange: (value: number | null) => void;
+  placeholder?: string;
+}
+
+const display = (value: number | null | undefined) =>
+  value == null || !Number.isFinite(value)
+    ? ""
+    : formatNumber(value, { maximumFractionDigits: 10 });
+
+// Whether the typed text already stands for `value`, so it can be left as
+// the user wrote it ("1,50" rather than "1,5").
+function shows(text: string, value: number | null | undefined): boolean {
+  const parsed = parseLocaleNumber(text);
+  return parsed == null || Number.isNaN(parsed) ? value == null : parsed === value;
+}
+
+// Text field for numbers written in the selected number format. Keeps the
+// text as typed while it parses to the current value, and re-formats when
+// the value changes from elsewhere (undo, goal seek, another locale).
+export const NumberInput: React.FC<NumberInputProps> = ({
+  value,
+  onChange,
+  placeholder
+}) => {
+  const locale = activeNumberLocale();
+  const [text, setText] = useState(() => display(value));
+  const formattedFor = useRef(locale);
+  const parsed = parseLocaleNumber(text);
+  const invalid = parsed != null && Number.isNaN(parsed);
+
+  useEffect(() => {
+    const localeChanged = formattedFor.current !== locale;
+    formattedFor.current = locale;
+    setText((prev) => (!localeChanged && shows(prev, value) ? prev : display(value)));
+  }, [value, locale]);
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      // Ctrl+Z here goes to the scenario undo rather than the browser's
+      data-app-undo=""
+      value={text}
+      placeholder={placeholder}
+      aria-invalid={invalid}
+      className={invalid ? "input-invalid" : undefined}
+      onChange={(e) => {
+        const next = parseLocaleNumber(e.target.value);
+        setText(e.target.value);
+        onChange(next == null || Number.isNaN(next) ? null : next);
+      }}
+    />
+  );
+};
@@ -0,0 +1,185 @@
+import type React from "react";
+import { Card } from "../../components/Card";
+import { formatNumber } from "./calculations";
+import { NumberInput } from "./NumberInput";
+import { allocatePortfolio, createPortfolioFarm } from "./portfolio";
+import type { BroilerResults, BroilerScenario, PortfolioFarm } from "./types";
+
+interface PortfolioPanelProps {
+  scenario: BroilerScenario;
+  results: BroilerResults;
+  // Validation message for the portfolio, if any
+  error?: string;
+  onAddFarm: (farm: PortfolioFarm) => void;
+  onChangeFarm: (id: string, patch: Partial<PortfolioFarm>) => void;
+  onRemoveFarm: (id: string) => void;
+}
+
+const farmNumberFields: {
+  key: "houses" | "houseArea" | "capacity" | "availabilityPercent";
+  unit: string;
+}[] = [
+  { key: "houses", unit: "houses" },
+  { key: "houseArea", unit: "m²" },
+  { key: "capacity", unit: "birds" },
+  { key: "availabilityPercent", unit: "%" }
+];
+
+export const PortfolioPanel: React.FC<PortfolioPanelProps> = ({
+  scenario,
+  results,
+  error,
+  onAddFarm,
+  onChangeFarm,
+  onRemoveFarm
+}) => {
+  const allocation = allocatePortfolio(scenario, results);
+  const nextName = `Farm ${scenario.farms.length + 1}`;
+  const { sn10FarmCapacity, sn11NumberOfHouses, sn12HouseArea } = scenario.inputs;
+
+  return (
+    <Card
+      title="Farm Portfolio"
+      actions={
+        <>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() =>
+              onAddFarm(
+                createPortfolioFarm(nextName, {
+                  houses: sn11NumberOfHouses,
+                  houseArea: sn12HouseArea,
+                  capacity: sn10FarmCapacity
+                })
+              )
+            }
+          >
+            Add standard farm
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => onAddFarm(createPortfolioFarm(nextName))}
+          >
+            Add farm
+          </button>
+        </>
+      }
+    >
+      {scenario.farms.length === 0 ? (
+        <div className="field-hint">
+          No farms yet; SN14 counts standard farms of SN10 birds/cycle. Add the
+          farms of your network to see how SN9 spreads over them.
+        </div>
+      ) : (
+        <>
+          <div className="field-hint">
+            SN9 is spread over the farms in proportion to capacity × availability.
+            Utilization is the share of each farm's full capacity that is placed.
+          </div>
+          {error && <div className="field-error">{error}</div>}
+          <div className="library-table portfolio-table">
+            <div className="library-header">
+              <span>Farm</span>
+              <span>Houses</span>
+              <span>Area/house</span>
+              <span>Capacity/cycle</span>
+              <span>Availability</span>
+              <span>Placed/cycle</span>
+              <span>Utilization</span>
+              <span />
+            </div>
+            {allocation.farms.map(
+              ({ farm, allocated, utilization, densityKgPerM2, overDensityLimit }) => (
+                <div key={farm.id} className="library-row">
+                  <input
+                    type="text"
+                    value={farm.name}
+                    aria-label="Farm name"
+                    onChange={(e) => onChangeFarm(farm.id, { name: e.target.value })}
+                  />
+                  {farmNumberFields.map(({ key, unit }) => (
+                    <div key={key} className="input-with-unit">
+                      <NumberInput
+                        value={farm[key]}
+                        onChange={(value) => onChangeFarm(farm.id, { [key]: value })}
+                      />
+                      <span className="input-unit">{unit}</span>
+                    </div>
+                  ))}
+                  <span className="mono">
+                    {formatNumber(allocated, { maximumFractionDigits: 0 })}
+                    {overDensityLimit && (
+                      <span className="field-error">
+                        {formatNumber(densityKgPerM2 ?? undefined, {
+                          maximumFractionDigits: 1
+                        })}{" "}
+                        kg/m², over the limit
+                      </span>
+                    )}
+                  </span>
+                  <span className="mono">
+                    {utilization == null
+                      ? "—"
+                      : `${formatNumber(utilization * 100, { maximumFractionDigits: 1 })}%`}
+                  </span>
+                  <button
+                    type="button"
+                    className="pill"
+                    onClick={() => onRemoveFarm(farm.id)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+
+          <div className="review-grid goal-seek-grid">
+            <div>
+              <div className="review-heading">Placement per cycle (SN9)</div>
+              <div className="review-value mono">
+                {formatNumber(allocation.demand ?? undefined, { maximumFractionDigits: 0 })}
+              </div>
+            </div>
+            <div>
+              <div className="review-heading">Portfolio capacity</div>
+              <div className="review-value mono">
+                {formatNumber(allocation.totalCapacity, { maximumFractionDigits: 0 })}
+              </div>
+            </div>
+            <div>
+              <div className="review-heading">Shortfall</div>
+              <div className="review-value mono">
+                {formatNumber(allocation.shortfall, { maximumFractionDigits: 0 })}
+              </div>
+            </div>
+            <div>
+              <div className="review-heading">Additional standard farms</div>
+              <div className="review-value mono">
+                {formatNumber(allocation.additionalStandardFarms ?? undefined)}
+              </div>
+            </div>
+          </div>
+          {allocation.demand == null && (
+            <div className="field-hint">
+              Fill in the broiler inputs to calculate SN9 and the allocation.
+            </div>
+          )}
+          {allocation.shortfall > 0 && allocation.additionalStandardFarms != null && (
+            <div className="banner banner-warning goal-seek-result">
+              The portfolio places{" "}
+              {formatNumber(allocation.allocated, { maximumFractionDigits: 0 })} of{" "}
+              {formatNumber(allocation.demand ?? undefined, { maximumFractionDigits: 0 })}{" "}
+              birds per cycle. {formatNumber(allocation.additionalStandardFarms)} more{" "}
+              {allocation.additionalStandardFarms === 1 ? "farm" : "farms"} of{" "}
+              {formatNumber(sn10FarmCapacity ?? undefined)} birds/cycle (SN10) would
+              close the gap.
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
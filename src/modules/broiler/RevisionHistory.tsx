@@ -0,0 +1,194 @@
+import type React from "react";
+import { useMemo, useState } from "react";
+import { Card } from "../../components/Card";
+import { formatNumber } from "./calculations";
+import { diffRevisions } from "./revisions";
+import type { BroilerScenario, ScenarioRevision } from "./types";
+
+interface RevisionHistoryProps {
+  scenario: BroilerScenario;
+  onRestore: (revision: ScenarioRevision) => void;
+}
+
+const describeRevision = (revision: ScenarioRevision) =>
+  `${new Date(revision.savedAt).toLocaleString()}${
+    revision.note ? ` · ${revision.note}` : ""
+  }`;
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  scenario,
+  onRestore
+}) => {
+  const revisions = scenario.revisions;
+  const latest = revisions[revisions.length - 1];
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+
+  // Default to the change made by the latest save
+  const before =
+    revisions.find((r) => r.id === beforeId) ?? revisions[revisions.length - 2] ?? latest;
+  const after = revisions.find((r) => r.id === afterId) ?? latest;
+
+  const diff = useMemo(
+    () => (before && after ? diffRevisions(before, after) : null),
+    [before, after]
+  );
+
+  const listColumns = "minmax(180px, 1fr) minmax(200px, 2fr) 120px";
+  const diffColumns = "minmax(200px, 2fr) repeat(2, minmax(150px, 1fr))";
+
+  return (
+    <Card title={`Revision History · ${scenario.name || "Untitled scenario"}`}>
+      {revisions.length === 0 ? (
+        <div className="field-hint">
+          Revisions are recorded each time this scenario is saved.
+        </div>
+      ) : (
+        <>
+          <div className="results-table">
+            <div
+              className="compare-row results-header"
+              style={{ gridTemplateColumns: listColumns }}
+            >
+              <span>Saved</span>
+              <span>Note</span>
+              <span>Actions</span>
+            </div>
+            {[...revisions].reverse().map((revision) => (
+              <div
+                key={revision.id}
+                className="compare-row"
+                style={{ gridTemplateColumns: listColumns }}
+              >
+                <span className="results-unit">
+                  {new Date(revision.savedAt).toLocaleString()}
+                </span>
+                <span>{revision.note ?? ""}</span>
+                <span>
+                  {revision.id === latest.id ? (
+                    <span className="field-hint">Current</span>
+                  ) : (
+                    <button
+                      type="button"
+                      className="pill"
+                      onClick={() => onRestore(revision)}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {revisions.length < 2 || !diff ? (
+            <div className="field-hint">
+              Save this scenario again to compare revisions.
+            </div>
+          ) : (
+            <>
+              <div className="form-grid">
+                {(
+                  [
+                    ["From", before, setBeforeId],
+                    ["To", after, setAfterId]
+                  ] as const
+                ).map(([label, selected, select]) => (
+                  <div key={label} className="form-field">
+                    <label>
+                      {label}
+                      <select
+                        value={selected.id}
+                        onChange={(e) => select(e.target.value)}
+                      >
+                        {revisions.map((r) => (
+                          <option key={r.id} value={r.id}>
+                            {describeRevision(r)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                ))}
+              </div>
+
+              {diff.configRows.length > 0 && (
+                <div className="results-table">
+                  <div
+                    className="compare-row results-header"
+                    style={{ gridTemplateColumns: diffColumns }}
+                  >
+                    <span>Setting</span>
+                    <span>From</span>
+                    <span>To</span>
+                  </div>
+                  {diff.configRows.map((row) => (
+                    <div
+                      key={row.label}
+                      className="compare-row"
+                      style={{ gridTemplateColumns: diffColumns }}
+                    >
+                      <span className="results-label">{row.label}</span>
+                      <span>{row.values[0]}</span>
+                      <span className="compare-differs">{row.values[1]}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="results-table">
+                <div
+                  className="compare-row results-header"
+                  style={{ gridTemplateColumns: diffColumns }}
+                >
+                  <span>Parameter</span>
+                  <span>From</span>
+                  <span>To</span>
+                </div>
+                {diff.rows.map((row) => {
+                  const [from, to] = row.cells;
+                  return (
+                    <div
+                      key={row.label}
+                      className="compare-row"
+                      style={{ gridTemplateColumns: diffColumns }}
+                    >
+                      <span className="results-label">
+                        {row.sn ? `${row.sn} · ${row.label}` : row.label}
+                      </span>
+                      <span className="mono">
+                        {formatNumber(from.value ?? undefined, {
+                          maximumFractionDigits: 2
+                        })}
+                      </span>
+                      <span className="compare-cell">
+                        <span className="mono">
+                          {formatNumber(to.value ?? undefined, {
+                            maximumFractionDigits: 2
+                          })}
+                        </span>
+                        {to.delta != null && to.delta !== 0 && (
+                          <span
+                            className={`compare-delta ${to.delta > 0 ? "up" : "down"}`}
+                          >
+                            {to.delta > 0 ? "+" : ""}
+                            {formatNumber(to.delta, { maximumFractionDigits: 2 })}
+                            {to.deltaPercent != null &&
+                              ` (${to.deltaPercent > 0 ? "+" : ""}${formatNumber(
+                                to.deltaPercent,
+                                { maximumFractionDigits: 1 }
+                              )}%)`}
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
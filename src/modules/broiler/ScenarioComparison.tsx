@@ -0,0 +1,168 @@
+import type React from "react";
+import { useMemo, useState } from "react";
+import { Card } from "../../components/Card";
+import { formatNumber } from "./calculations";
+import { buildScenarioComparison } from "./compare";
+import type { BroilerScenario } from "./types";
+
+interface ScenarioComparisonProps {
+  scenarios: BroilerScenario[];
+}
+
+export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({
+  scenarios
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [referenceId, setReferenceId] = useState<string | null>(null);
+
+  const selected = useMemo(
+    () => scenarios.filter((s) => selectedIds.includes(s.id)),
+    [scenarios, selectedIds]
+  );
+  const activeReferenceId =
+    referenceId != null && selectedIds.includes(referenceId)
+      ? referenceId
+      : selected[0]?.id ?? "";
+
+  const comparison = useMemo(
+    () => buildScenarioComparison(selected, activeReferenceId),
+    [selected, activeReferenceId]
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const columns = `minmax(200px, 2fr) repeat(${Math.max(selected.length, 1)}, minmax(150px, 1fr))`;
+
+  return (
+    <Card title="Compare Scenarios">
+      {scenarios.length < 2 ? (
+        <div className="field-hint">
+          Save at least two scenarios to compare them side by side.
+        </div>
+      ) : (
+        <>
+          <div className="compare-picker">
+            {scenarios.map((s) => (
+              <label key={s.id} className="compare-option">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(s.id)}
+                  onChange={() => toggleSelected(s.id)}
+                />
+                {s.name || "Untitled scenario"}
+              </label>
+            ))}
+          </div>
+
+          {selected.length < 2 ? (
+            <div className="field-hint">Select two or more scenarios.</div>
+          ) : (
+            <>
+              <div className="form-grid">
+                <div className="form-field">
+                  <label>
+                    Reference scenario
+                    <select
+                      value={activeReferenceId}
+                      onChange={(e) => setReferenceId(e.target.value)}
+                    >
+                      {selected.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.name || "Untitled scenario"}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+
+              <div className="results-table">
+                <div
+                  className="compare-row results-header"
+                  style={{ gridTemplateColumns: columns }}
+                >
+                  <span>Setting</span>
+                  {selected.map((s) => (
+                    <span key={s.id}>{s.name || "Untitled scenario"}</span>
+                  ))}
+                </div>
+                {comparison.configRows.map((row) => (
+                  <div
+                    key={row.label}
+                    className="compare-row"
+                    style={{ gridTemplateColumns: columns }}
+                  >
+                    <span className="results-label">{row.label}</span>
+                    {row.values.map((value, index) => (
+                      <span
+                        key={selected[index].id}
+                        className={row.differs[index] ? "compare-differs" : ""}
+                      >
+                        {value}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="results-table">
+                <div
+                  className="compare-row results-header"
+                  style={{ gridTemplateColumns: columns }}
+                >
+                  <span>Parameter</span>
+                  {selected.map((s) => (
+                    <span key={s.id}>
+                      {s.name || "Untitled scenario"}
+                      {s.id === activeReferenceId ? " (ref)" : ""}
+                    </span>
+                  ))}
+                </div>
+                {comparison.rows.map((row) => (
+                  <div
+                    key={row.label}
+                    className="compare-row"
+                    style={{ gridTemplateColumns: columns }}
+                  >
+                    <span className="results-label">
+                      {row.sn ? `${row.sn} · ${row.label}` : row.label}
+                    </span>
+                    {row.cells.map((cell, index) => (
+                      <span key={selected[index].id} className="compare-cell">
+                        <span className="mono">
+                          {formatNumber(cell.value ?? undefined, {
+                            maximumFractionDigits: 2
+                          })}
+                        </span>
+                        {selected[index].id !== activeReferenceId &&
+                          cell.delta != null && (
+                            <span
+                              className={`compare-delta ${
+                                cell.delta > 0 ? "up" : cell.delta < 0 ? "down" : ""
+                              }`}
+                            >
+                              {cell.delta > 0 ? "+" : ""}
+                              {formatNumber(cell.delta, { maximumFractionDigits: 2 })}
+                              {cell.deltaPercent != null &&
+                                ` (${cell.deltaPercent > 0 ? "+" : ""}${formatNumber(
+                                  cell.deltaPercent,
+                                  { maximumFractionDigits: 1 }
+                                )}%)`}
+                            </span>
+                          )}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
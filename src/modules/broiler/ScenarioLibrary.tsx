@@ -0,0 +1,254 @@
+import type React from "react";
+import { useState } from "react";
+import { Card } from "../../components/Card";
+import {
+  computeBroilerResults,
+  formatNumber
+} from "./calculations";
+import { SyncBadge } from "./SyncBadge";
+import type { QuarantinedRecord } from "./storage";
+import type { SyncState } from "./sync";
+import type { BroilerScenario } from "./types";
+
+interface ScenarioLibraryProps {
+  scenarios: BroilerScenario[];
+  activeId: string;
+  onOpen: (scenario: BroilerScenario) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onOverwrite: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onImportWorkbook: (file: File) => void;
+  onImportBundle: (file: File) => void;
+  onExportBundle: (ids: string[]) => void;
+  quarantined: QuarantinedRecord[];
+  // Set when a newer build saved the library, which this one leaves alone
+  newerSchemaVersion: number | null;
+  onDownloadQuarantine: () => void;
+  onClearQuarantine: () => void;
+  syncStateOf: (id: string) => SyncState;
+  syncError: string | null;
+  onRetrySync: () => void;
+}
+
+export const ScenarioLibrary: React.FC<ScenarioLibraryProps> = ({
+  scenarios,
+  activeId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onOverwrite,
+  onDelete,
+  onNew,
+  onImportWorkbook,
+  onImportBundle,
+  onExportBundle,
+  quarantined,
+  newerSchemaVersion,
+  onDownloadQuarantine,
+  onClearQuarantine,
+  syncStateOf,
+  syncError,
+  onRetrySync
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startRename = (scenario: BroilerScenario) => {
+    setRenamingId(scenario.id);
+    setDraftName(scenario.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <Card
+      title="Scenario Library"
+      actions={
+        <>
+          <label className="btn btn-secondary">
+            Import Excel
+            <input
+              type="file"
+              accept=".xlsx,.xls"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportWorkbook(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          <label className="btn btn-secondary">
+            Import JSON
+            <input
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportBundle(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {scenarios.length > 0 && (
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => onExportBundle(scenarios.map((s) => s.id))}
+            >
+              Export all
+            </button>
+          )}
+          <button type="button" className="btn btn-secondary" onClick={onNew}>
+            New Scenario
+          </button>
+        </>
+      }
+    >
+      {syncError && (
+        <div className="banner banner-warning library-quarantine">
+          <span>{syncError}</span>
+          <button type="button" className="pill" onClick={onRetrySync}>
+            Retry
+          </button>
+        </div>
+      )}
+      {newerSchemaVersion != null && (
+        <div className="banner banner-warning library-quarantine">
+          <span>
+            The saved scenarios on this device were written by a newer version of
+            the app (schema v{newerSchemaVersion}). They are left untouched and
+            changes made here are not saved; reload to use the newer version.
+          </span>
+        </div>
+      )}
+      {quarantined.length > 0 && (
+        <div className="banner banner-warning library-quarantine">
+          <span>
+            {quarantined.length} saved{" "}
+            {quarantined.length === 1 ? "scenario" : "scenarios"} could not be
+            loaded and {quarantined.length === 1 ? "was" : "were"} set aside:{" "}
+            {quarantined[0].reason}
+          </span>
+          <span className="library-actions">
+            <button type="button" className="pill" onClick={onDownloadQuarantine}>
+              Download
+            </button>
+            <button type="button" className="pill" onClick={onClearQuarantine}>
+              Discard
+            </button>
+          </span>
+        </div>
+      )}
+      {scenarios.length === 0 ? (
+        <div className="field-hint">
+          No saved scenarios yet. Saved scenarios will appear here.
+        </div>
+      ) : (
+        <div className="library-table">
+          <div className="library-header">
+            <span>Scenario</span>
+            <span>Created</span>
+            <span>Farms</span>
+            <span>Placement/cycle</span>
+            <span>Actions</span>
+          </div>
+          {scenarios.map((s) => {
+            const results = computeBroilerResults(s.inputs, s.config, {
+              timeHorizon: s.timeHorizon,
+              customDays: s.customDays
+            });
+            const isActive = s.id === activeId;
+            return (
+              <div
+                key={s.id}
+                className={`library-row ${isActive ? "active" : ""}`}
+              >
+                <span className="library-name">
+                  {renamingId === s.id ? (
+                    <input
+                      type="text"
+                      value={draftName}
+                      autoFocus
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setRenamingId(null);
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <span className="library-title">
+                        {s.name || "Untitled scenario"}
+                      </span>
+                      {s.description && (
+                        <span className="library-description">
+                          {s.description}
+                        </span>
+                      )}
+                      <SyncBadge state={syncStateOf(s.id)} />
+                    </>
+                  )}
+                </span>
+                <span className="results-unit">
+                  {new Date(s.createdAt).toLocaleString()}
+                </span>
+                <span className="mono">
+                  {formatNumber(results.sn14NumberOfFarms, {
+                    maximumFractionDigits: 2
+                  })}
+                </span>
+                <span className="mono">
+                  {formatNumber(results.sn9PlacementPerCycle, {
+                    maximumFractionDigits: 0
+                  })}
+                </span>
+                <span className="library-actions">
+                  <button type="button" className="pill" onClick={() => onOpen(s)}>
+                    Open
+                  </button>
+                  <button type="button" className="pill" onClick={() => startRename(s)}>
+                    Rename
+                  </button>
+                  <button type="button" className="pill" onClick={() => onDuplicate(s.id)}>
+                    Duplicate
+                  </button>
+                  <button
+                    type="button"
+                    className="pill"
+                    onClick={() => onExportBundle([s.id])}
+                    title="Download this scenario as a JSON bundle"
+                  >
+                    Export
+                  </button>
+                  {!isActive && (
+                    <button
+                      type="button"
+                      className="pill"
+                      onClick={() => onOverwrite(s.id)}
+                      title="Replace this scenario with the editor contents"
+                    >
+                      Overwrite
+                    </button>
+                  )}
+                  <button type="button" className="pill" onClick={() => onDelete(s.id)}>
+                    Delete
+                  </button>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
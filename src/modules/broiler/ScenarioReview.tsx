@@ -0,0 +1,123 @@
+import type React from "react";
+import { Card } from "../../components/Card";
+import { formatNumber, horizonUnitLabel } from "./calculations";
+import { DiagnosticsBanner } from "./DiagnosticsBanner";
+import { describeAssumptions } from "./report";
+import type { BroilerResults, BroilerScenario } from "./types";
+
+interface ReviewParameterRow {
+  key: string;
+  label: string;
+  uom: string;
+  base: number | null;
+  rounded: number | null;
+  floored: number | null;
+  blankReasons: Record<"base" | "rounded" | "floored", string | undefined>;
+}
+
+interface ScenarioReviewProps {
+  scenario: BroilerScenario;
+  results: BroilerResults;
+  fullParametersRows: ReviewParameterRow[];
+  unitsModeLabel: string;
+  isSaved: boolean;
+  revisionNote: string;
+  onRevisionNoteChange: (note: string) => void;
+  onSave: () => void;
+  onDiscard: () => void;
+}
+
+export const ScenarioReview: React.FC<ScenarioReviewProps> = ({
+  scenario,
+  results,
+  fullParametersRows,
+  unitsModeLabel,
+  isSaved,
+  revisionNote,
+  onRevisionNoteChange,
+  onSave,
+  onDiscard
+}) => {
+  const configLines = describeAssumptions(scenario, unitsModeLabel);
+
+  return (
+    <Card
+      title="Review & Save Plan"
+      actions={
+        <>
+          <button type="button" className="btn btn-secondary" onClick={onDiscard}>
+            {isSaved ? "Discard changes" : "Discard"}
+          </button>
+          <button type="button" className="btn btn-primary" onClick={onSave}>
+            Save Plan
+          </button>
+        </>
+      }
+    >
+      <div className="review-grid">
+        <div>
+          <div className="review-heading">Scenario</div>
+          <div className="review-value">{scenario.name || "Untitled scenario"}</div>
+          {scenario.description && (
+            <div className="field-hint">{scenario.description}</div>
+          )}
+          <div className="field-hint">
+            Horizon: per {horizonUnitLabel(scenario)}
+          </div>
+        </div>
+        <div>
+          <div className="review-heading">Assumptions</div>
+          <ul className="review-list">
+            {configLines.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="form-grid">
+        <div className="form-field">
+          <label>
+            Revision note
+            <input
+              type="text"
+              value={revisionNote}
+              placeholder="What changed in this save (optional)"
+              onChange={(e) => onRevisionNoteChange(e.target.value)}
+            />
+          </label>
+          <div className="field-hint">
+            Every save is kept in the scenario's revision history.
+          </div>
+        </div>
+      </div>
+
+      <DiagnosticsBanner results={results} />
+
+      <div className="results-table">
+        <div className="results-header">
+          <span>Parameter</span>
+          <span>UOM</span>
+          <span>Base</span>
+          <span>Rounded</span>
+          <span>Floored</span>
+        </div>
+        {fullParametersRows.map((r) => (
+          <div key={r.key} className="results-row">
+            <span className="results-label">{r.label}</span>
+            <span className="results-unit">{r.uom}</span>
+            {(["base", "rounded", "floored"] as const).map((which) => (
+              <span
+                key={which}
+                className="results-value"
+                title={r.blankReasons[which]}
+              >
+                {formatNumber(r[which] ?? undefined, { maximumFractionDigits: 3 })}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
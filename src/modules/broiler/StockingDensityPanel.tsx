@@ -0,0 +1,137 @@
+import type React from "react";
+import { useState } from "react";
+import { Card } from "../../components/Card";
+import { formatNumber } from "./calculations";
+import { densityLimitPresets } from "./density";
+import { NumberInput } from "./NumberInput";
+import type { BroilerResults, BroilerScenario } from "./types";
+
+interface StockingDensityPanelProps {
+  scenario: BroilerScenario;
+  results: BroilerResults;
+  // Validation message for the limit, if any
+  error?: string;
+  onLimitChange: (limit: number | null) => void;
+  onApplyCapacity: (capacity: number) => void;
+}
+
+const isPreset = (limit: number | null) =>
+  densityLimitPresets.some((p) => p.kgPerM2 === limit);
+
+export const StockingDensityPanel: React.FC<StockingDensityPanelProps> = ({
+  scenario,
+  results,
+  error,
+  onLimitChange,
+  onApplyCapacity
+}) => {
+  const limit = scenario.config.densityLimitKgPerM2;
+  // Custom stays selected while the field is empty or the typed value
+  // happens to match a preset
+  const [custom, setCustom] = useState(false);
+  const selected =
+    custom || (limit != null && !isPreset(limit))
+      ? "custom"
+      : limit == null
+        ? "none"
+        : String(limit);
+
+  const density = results.sn13DensityKgPerM2;
+  const exceeded = results.diagnostics.some((d) => d.code === "densityLimitExceeded");
+  const capacity = results.maxCompliantFarmCapacity;
+
+  return (
+    <Card title="Stocking Density">
+      <div className="field-hint">
+        Density at harvest, per m² of house floor, checked against a live weight
+        limit.
+      </div>
+      <div className="form-grid goal-seek-grid">
+        <div className="form-field">
+          <label>
+            Density limit
+            <select
+              value={selected}
+              onChange={(e) => {
+                const value = e.target.value;
+                setCustom(value === "custom");
+                if (value === "none") onLimitChange(null);
+                else if (value !== "custom") onLimitChange(Number(value));
+              }}
+            >
+              <option value="none">No limit</option>
+              {densityLimitPresets.map((p) => (
+                <option key={p.kgPerM2} value={String(p.kgPerM2)}>
+                  {p.label}
+                </option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+          </label>
+        </div>
+        {selected === "custom" && (
+          <div className={`form-field ${error ? "field-flagged" : ""}`}>
+            <label>
+              Custom limit
+              <div className="input-with-unit">
+                <NumberInput value={limit} onChange={onLimitChange} />
+                <span className="input-unit">kg/m²</span>
+              </div>
+            </label>
+            {error && <div className="field-error">{error}</div>}
+          </div>
+        )}
+      </div>
+
+      <div className="review-grid goal-seek-grid">
+        <div>
+          <div className="review-heading">Birds per m²</div>
+          <div className="review-value mono">
+            {formatNumber(results.sn13Density, { maximumFractionDigits: 2 })}
+          </div>
+        </div>
+        <div>
+          <div className="review-heading">Live weight per m²</div>
+          <div className="review-value mono">
+            {formatNumber(density, { maximumFractionDigits: 2 })} kg
+          </div>
+        </div>
+        {limit != null && (
+          <div>
+            <div className="review-heading">Farms needed within the limit</div>
+            <div className="review-value mono">
+              {formatNumber(results.compliantNumberOfFarms, { maximumFractionDigits: 2 })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {limit != null && capacity != null && (
+        <div className={`banner goal-seek-result ${exceeded ? "banner-warning" : ""}`}>
+          <span>
+            {density == null
+              ? "Enter SN10 to check compliance."
+              : exceeded
+                ? "Over the limit."
+                : "Within the limit."}{" "}
+            Up to{" "}
+            <strong className="mono">{formatNumber(capacity)}</strong> birds/cycle
+            per farm keep {formatNumber(scenario.inputs.sn11NumberOfHouses ?? undefined)}{" "}
+            × {formatNumber(scenario.inputs.sn12HouseArea ?? undefined)} m² at or below{" "}
+            {formatNumber(limit)} kg/m².
+          </span>
+          {scenario.inputs.sn10FarmCapacity !== capacity && (
+            <button type="button" className="pill" onClick={() => onApplyCapacity(capacity)}>
+              Use as SN10
+            </button>
+          )}
+        </div>
+      )}
+      {limit != null && capacity == null && (
+        <div className="field-hint goal-seek-result">
+          Enter SN2, SN11 and SN12 to derive the largest compliant farm capacity.
+        </div>
+      )}
+    </Card>
+  );
+};
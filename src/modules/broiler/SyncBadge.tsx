@@ -0,0 +1,13 @@
+import type React from "react";
+import { syncStatusLabels } from "./sync";
+import type { SyncState } from "./sync";
+
+interface SyncBadgeProps {
+  state: SyncState;
+}
+
+export const SyncBadge: React.FC<SyncBadgeProps> = ({ state }) => (
+  <span className={`sync-badge sync-${state.status}`} title={state.message}>
+    {syncStatusLabels[state.status]}
+  </span>
+);
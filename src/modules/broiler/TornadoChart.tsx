@@ -0,0 +1,66 @@
+import type React from "react";
+import { formatNumber } from "./calculations";
+import type { SensitivityAnalysis } from "./sensitivity";
+
+interface TornadoChartProps {
+  analysis: SensitivityAnalysis;
+}
+
+// Horizontal bars centred on the base output: the left side shows how far the
+// output drops, the right side how far it rises, for each perturbed input.
+export const TornadoChart: React.FC<TornadoChartProps> = ({ analysis }) => {
+  const base = analysis.baseOutput;
+  if (base == null || analysis.rows.length === 0) {
+    return (
+      <div className="field-hint">
+        Fill in the inputs to see which assumption moves the result most.
+      </div>
+    );
+  }
+
+  const maxSwing = Math.max(...analysis.rows.map((r) => r.swing), 0);
+  const widthFor = (value: number | null) =>
+    value == null || maxSwing === 0
+      ? 0
+      : (Math.abs(value - base) / maxSwing) * 50;
+
+  return (
+    <div className="tornado">
+      {analysis.rows.map((row) => {
+        const outputs = [row.lowOutput, row.highOutput].filter(
+          (v): v is number => v != null
+        );
+        const below = outputs.filter((v) => v < base);
+        const above = outputs.filter((v) => v > base);
+        const minBelow = below.length ? Math.min(...below) : null;
+        const maxAbove = above.length ? Math.max(...above) : null;
+        return (
+          <div key={row.key} className="tornado-row">
+            <span className="tornado-label">{row.label}</span>
+            <div className="tornado-track">
+              <div className="tornado-axis" />
+              {minBelow != null && (
+                <div
+                  className="tornado-bar tornado-bar-low"
+                  style={{ right: "50%", width: `${widthFor(minBelow)}%` }}
+                  title={formatNumber(minBelow, { maximumFractionDigits: 3 })}
+                />
+              )}
+              {maxAbove != null && (
+                <div
+                  className="tornado-bar tornado-bar-high"
+                  style={{ left: "50%", width: `${widthFor(maxAbove)}%` }}
+                  title={formatNumber(maxAbove, { maximumFractionDigits: 3 })}
+                />
+              )}
+            </div>
+            <span className="tornado-range mono">
+              {formatNumber(minBelow ?? base, { maximumFractionDigits: 2 })} –{" "}
+              {formatNumber(maxAbove ?? base, { maximumFractionDigits: 2 })}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
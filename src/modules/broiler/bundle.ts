@@ -0,0 +1,110 @@
+import { CURRENT_SCHEMA_VERSION, migrateRecord } from "./migrations";
+import { unpackStoredScenarios } from "./storage";
+import type { StoredScenarios } from "./storage";
+import type { BroilerScenario } from "./types";
+
+// A bundle is the StoredScenarios envelope that is kept under the storage
+// key, so a bundle file and a copy of localStorage can be imported alike.
+export interface ScenarioBundle extends StoredScenarios {
+  exportedAt: string;
+}
+
+export function buildScenarioBundle(scenarios: BroilerScenario[]): ScenarioBundle {
+  return {
+    version: CURRENT_SCHEMA_VERSION,
+    scenarios,
+    exportedAt: new Date().toISOString()
+  };
+}
+
+export interface BundleEntry {
+  scenario: BroilerScenario;
+  // Library scenario with the same id, if any
+  existing?: BroilerScenario;
+}
+
+export interface BundlePreview {
+  version: number;
+  entries: BundleEntry[];
+  // Records that failed validation; they are never imported
+  rejected: { index: number; name?: string; reason: string }[];
+}
+
+// How to import a scenario whose id is already in the library
+export type CollisionPolicy = "keepBoth" | "replace" | "skip";
+
+export const collisionPolicyLabels: Record<CollisionPolicy, string> = {
+  keepBoth: "Keep both (import as a copy)",
+  replace: "Replace the library version",
+  skip: "Skip it"
+};
+
+// Parses a bundle file and checks every record against the current schema,
+// migrating older bundles the same way stored scenarios are migrated.
+// Throws when the file is not a bundle at all.
+export function previewScenarioBundle(
+  text: string,
+  library: BroilerScenario[]
+): BundlePreview {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const { version, records } = unpackStoredScenarios(parsed);
+  if (version === 0) {
+    throw new Error("The file is not a scenario bundle.");
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `The bundle was exported by a newer version of the app (schema v${version}).`
+    );
+  }
+
+  const preview: BundlePreview = { version, entries: [], rejected: [] };
+  records.forEach((record, index) => {
+    const result = migrateRecord(record, version);
+    if (result.ok) {
+      preview.entries.push({
+        scenario: result.scenario,
+        existing: library.find((s) => s.id === result.scenario.id)
+      });
+    } else {
+      const name = (record as { name?: unknown } | null)?.name;
+      preview.rejected.push({
+        index,
+        name: typeof name === "string" ? name : undefined,
+        reason: result.reason
+      });
+    }
+  });
+  return preview;
+}
+
+// Scenarios to write to the library. Everything imported is stamped as
+// updated now so the import also wins when syncing with a server.
+export function resolveBundleImport(
+  entries: BundleEntry[],
+  policy: CollisionPolicy
+): { scenarios: BroilerScenario[]; skipped: number } {
+  const now = new Date().toISOString();
+  const scenarios: BroilerScenario[] = [];
+  let skipped = 0;
+  entries.forEach(({ scenario, existing }) => {
+    if (!existing || policy === "replace") {
+      scenarios.push({ ...scenario, updatedAt: now });
+    } else if (policy === "keepBoth") {
+      scenarios.push({
+        ...scenario,
+        id: crypto.randomUUID(),
+        name: `${scenario.name} (imported)`,
+        createdAt: now,
+        updatedAt: now
+      });
+    } else {
+      skipped += 1;
+    }
+  });
+  return { scenarios, skipped };
+}
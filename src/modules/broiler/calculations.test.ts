@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { buildFarmScenarios, computeBroilerResults } from "./calculations";
+import type { BroilerOutputKey } from "./calculations";
+import golden from "./fixtures/calculator-sheet1.json";
+import { growthCurvePresets } from "./growth";
+import { createRandom } from "./monteCarlo";
+import type {
+  BroilerConfig,
+  BroilerHorizon,
+  BroilerInputs,
+  BroilerResults,
+  UnitsModeKey
+} from "./types";
+
+interface GoldenCase {
+  name: string;
+  inputs?: Partial<BroilerInputs>;
+  config?: Partial<BroilerConfig>;
+  horizon?: BroilerHorizon;
+  // null when the output is left blank
+  expected: Partial<Record<BroilerOutputKey, number | null>>;
+  diagnostics?: string[];
+}
+
+const baseInputs = golden.inputs as BroilerInputs;
+const baseConfig = golden.config as BroilerConfig;
+const cases = golden.cases as GoldenCase[];
+
+const YEAR: BroilerHorizon = { timeHorizon: "year" };
+
+// Equal to about nine significant figures, as the sheet stores doubles
+function expectClose(actual: number | undefined, expected: number) {
+  expect(actual).toBeDefined();
+  expect(Math.abs((actual as number) - expected)).toBeLessThanOrEqual(
+    Math.abs(expected) * 1e-9 + 1e-9
+  );
+}
+
+const errorCodes = (results: BroilerResults) =>
+  results.diagnostics.filter((d) => d.severity !== "info").map((d) => d.code);
+
+describe("computeBroilerResults against Calculator.xlsx", () => {
+  it.each(cases.map((c) => [c.name, c] as const))("%s", (_name, fixture) => {
+    const results = computeBroilerResults(
+      { ...baseInputs, ...fixture.inputs },
+      { ...baseConfig, ...fixture.config },
+      fixture.horizon ?? YEAR
+    );
+
+    (Object.keys(fixture.expected) as BroilerOutputKey[]).forEach((key) => {
+      const expected = fixture.expected[key];
+      if (expected == null) {
+        expect(results[key], key).toBeUndefined();
+      } else {
+        expectClose(results[key], expected);
+      }
+    });
+
+    const codes = results.diagnostics.map((d) => d.code);
+    if (fixture.diagnostics) {
+      fixture.diagnostics.forEach((code) => expect(codes).toContain(code));
+    } else {
+      expect(errorCodes(results)).toEqual([]);
+    }
+  });
+
+  it("formats diagnostic numbers in the given locale", () => {
+    const config = { ...baseConfig, densityLimitKgPerM2: 10 };
+    const message = (locale: string) =>
+      computeBroilerResults(baseInputs, config, YEAR, locale).diagnostics.find(
+        (d) => d.code === "densityLimitExceeded"
+      )?.message;
+    expect(message("en-US")).toContain("SN13 Broiler Density is 31.3 kg/m²");
+    expect(message("de-DE")).toContain("SN13 Broiler Density is 31,3 kg/m²");
+  });
+
+  it("treats non-finite inputs as not entered", () => {
+    const results = computeBroilerResults(
+      { ...baseInputs, sn2HarvestBirdAvgWeight: Number.NaN, sn6CycleTimeDays: Infinity },
+      baseConfig
+    );
+    expect(results.sn3HarvestBirdsNumber).toBeUndefined();
+    expect(results.sn7CyclesPerYear).toBeUndefined();
+    expect(
+      results.diagnostics.filter((d) => d.code === "missingInput").flatMap((d) => d.inputs)
+    ).toEqual(["sn2HarvestBirdAvgWeight", "sn6CycleTimeDays"]);
+    expect(errorCodes(results)).toEqual([]);
+  });
+});
+
+const unitsModes: UnitsModeKey[] = [
+  "tonsPerYear_kgPerBird",
+  "kgPerYear_kgPerBird",
+  "meatTonsWithYield"
+];
+
+const horizons: BroilerHorizon[] = [
+  { timeHorizon: "year" },
+  { timeHorizon: "threeYears" },
+  { timeHorizon: "customDays", customDays: 183 }
+];
+
+describe("buildFarmScenarios", () => {
+  // Seeded, so a failure names a combination that can be replayed
+  const random = createRandom(20240611);
+  const between = (min: number, max: number) => min + (max - min) * random();
+  const combinations = Array.from({ length: 300 }, (_, run) => {
+    const config: BroilerConfig = {
+      ...baseConfig,
+      unitsMode: unitsModes[run % unitsModes.length],
+      useYield: true,
+      mortalityAsPercent: random() < 0.5,
+      useFullCyclesOnly: random() < 0.5,
+      useLeapYearCycles: random() < 0.5
+    };
+    const inputs: BroilerInputs = {
+      ...baseInputs,
+      sn1TargetBroilerMeat:
+        between(100, 200000) * (config.unitsMode === "kgPerYear_kgPerBird" ? 1000 : 1),
+      sn2HarvestBirdAvgWeight: between(0.8, 4),
+      sn4PlannedMortality: between(0, 0.3) * (config.mortalityAsPercent ? 100 : 1),
+      sn6CycleTimeDays: between(30, 120),
+      sn10FarmCapacity: Math.round(between(5000, 500000)),
+      yieldPercent: between(55, 90)
+    };
+    return { run, config, inputs, horizon: horizons[run % horizons.length] };
+  });
+
+  it.each(combinations)(
+    "base row gives back the entered SN1 (run $run)",
+    ({ config, inputs, horizon }) => {
+      const results = computeBroilerResults(inputs, config, horizon);
+      const [base, roundedUp, floored] = buildFarmScenarios(inputs, config, results);
+      // SN1 is annual; the rows report meat over the horizon
+      const years = (results.horizonDays as number) / (config.useLeapYearCycles ? 365.25 : 365);
+      const sn1 = (inputs.sn1TargetBroilerMeat as number) * years;
+
+      expectClose(base.sn1TargetBroilerMeat ?? undefined, sn1);
+      expectClose(
+        base.sn3HarvestBirdsNumber ?? undefined,
+        results.sn3HarvestBirdsNumber as number
+      );
+      expect(roundedUp.sn1TargetBroilerMeat).toBeGreaterThanOrEqual(sn1 * (1 - 1e-12));
+      if (floored.farms != null && floored.farms > 0) {
+        expect(floored.sn1TargetBroilerMeat).toBeLessThanOrEqual(sn1 * (1 + 1e-12));
+      }
+    }
+  );
+
+  it("leaves SN1 blank when the farm count cannot be calculated", () => {
+    const inputs = { ...baseInputs, sn10FarmCapacity: 0 };
+    const rows = buildFarmScenarios(inputs, baseConfig, computeBroilerResults(inputs, baseConfig));
+    rows.forEach((row) => expect(row.sn1TargetBroilerMeat).toBeNull());
+  });
+
+  describe("with SN2 read from the growth curve", () => {
+    const config: BroilerConfig = {
+      ...baseConfig,
+      composeCycleTime: true,
+      growthCurve: growthCurvePresets[0],
+      growthDerive: "weight"
+    };
+    const parts = { growOutDays: 35, cleanoutDays: 14, downtimeDays: 4 };
+
+    // Ross 308 weighs 2.333 kg at 35 days; an entered SN2 is ignored
+    it.each([null, 1.8])("base row gives back the entered SN1 (SN2 entered: %s)", (sn2) => {
+      const inputs = { ...baseInputs, ...parts, sn2HarvestBirdAvgWeight: sn2 };
+      const results = computeBroilerResults(inputs, config);
+      const [base] = buildFarmScenarios(inputs, config, results);
+
+      expect(results.growthPoint?.weightKg).toBeCloseTo(2.333, 6);
+      expectClose(
+        base.sn1TargetBroilerMeat ?? undefined,
+        baseInputs.sn1TargetBroilerMeat as number
+      );
+    });
+  });
+});
@@ -1,19 +1,157 @@
 import type {
   BroilerInputs,
   BroilerConfig,
+  BroilerDiagnostic,
+  BroilerHorizon,
   BroilerResults,
+  BroilerResultSn,
   UnitsModeKey
 } from "./types";
+import { applyGrowthCurve, derivedGrowthInput, growthSourceInput } from "./growth";
+import { activeNumberLocale } from "./numberLocale";
+import { inRange, inputSchema } from "./validation";
+
+export const DEFAULT_HORIZON: BroilerHorizon = { timeHorizon: "year" };
 
 function safeNumber(value: number | null | undefined): number | null {
   return typeof value === "number" && Number.isFinite(value) ? value : null;
 }
 
+function daysPerYear(config: BroilerConfig): number {
+  return config.useLeapYearCycles ? 365.25 : 365;
+}
+
+export function resolveHorizonDays(
+  horizon: BroilerHorizon,
+  config: BroilerConfig
+): number | null {
+  if (horizon.timeHorizon === "year") return daysPerYear(config);
+  if (horizon.timeHorizon === "threeYears") return 3 * daysPerYear(config);
+  const days = safeNumber(horizon.customDays);
+  return days != null && days > 0 ? days : null;
+}
+
+// Period suffix used in units, e.g. "tons/3 years" or "birds/183 days".
+export function horizonUnitLabel(horizon: BroilerHorizon): string {
+  if (horizon.timeHorizon === "year") return "year";
+  if (horizon.timeHorizon === "threeYears") return "3 years";
+  const days = safeNumber(horizon.customDays);
+  return days != null && days > 0 ? `${days} days` : "custom days";
+}
+
+// Outputs computed directly from each output, used to list everything a
+// diagnostic leaves blank.
+const dependentOutputs: Record<BroilerResultSn, BroilerResultSn[]> = {
+  sn3: ["sn5", "sn8"],
+  sn5: [],
+  sn7: ["sn8"],
+  sn8: ["sn9"],
+  sn9: ["sn14"],
+  sn13: [],
+  sn14: []
+};
+
+function withDependents(...roots: BroilerResultSn[]): BroilerResultSn[] {
+  const found: BroilerResultSn[] = [];
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const next = queue.shift() as BroilerResultSn;
+    if (found.includes(next)) continue;
+    found.push(next);
+    queue.push(...dependentOutputs[next]);
+  }
+  return found;
+}
+
+const inputLabels: Record<keyof BroilerInputs | "customDays", string> = {
+  sn1TargetBroilerMeat: "SN1 Target Broiler Meat",
+  sn2HarvestBirdAvgWeight: "SN2 Harvest Birds Average Weight",
+  sn4PlannedMortality: "SN4 Planned Mortality",
+  sn6CycleTimeDays: "SN6 Broiler Cycle Time",
+  sn10FarmCapacity: "SN10 Broiler Farm Capacity",
+  sn11NumberOfHouses: "SN11 Broiler No. of Houses",
+  sn12HouseArea: "SN12 Broiler House Area",
+  yieldPercent: "Yield %",
+  growOutDays: "Grow-out age at harvest",
+  cleanoutDays: "Cleanout days",
+  downtimeDays: "Downtime buffer",
+  customDays: "Custom horizon days"
+};
+
+// Inputs that make up SN6; downtime may be left empty
+const cycleTimeKeys = (config: BroilerConfig): (keyof BroilerInputs)[] =>
+  config.composeCycleTime
+    ? ["growOutDays", "cleanoutDays", "downtimeDays"]
+    : ["sn6CycleTimeDays"];
+
+const allCycleTimeKeys: (keyof BroilerInputs)[] = [
+  "sn6CycleTimeDays",
+  "growOutDays",
+  "cleanoutDays",
+  "downtimeDays"
+];
+
+// False for inputs the model does not take as entered: SN6 when it is
+// composed from its parts, the parts when SN6 is entered whole, and the input
+// read from a linked growth curve
+export const inputIsEntered = (key: keyof BroilerInputs, config: BroilerConfig) =>
+  (!allCycleTimeKeys.includes(key) || cycleTimeKeys(config).includes(key)) &&
+  key !== derivedGrowthInput(config);
+
+// Outputs that stay blank until each required input is filled in. An input
+// read from a growth curve passes its outputs on to the input it is read from.
+function outputsNeedingInput(
+  config: BroilerConfig
+): Partial<Record<keyof BroilerInputs, BroilerResultSn[]>> {
+  const needed: Partial<Record<keyof BroilerInputs, BroilerResultSn[]>> = {
+    sn1TargetBroilerMeat: ["sn3"],
+    sn2HarvestBirdAvgWeight: ["sn3"],
+    sn4PlannedMortality: ["sn5", "sn9"],
+    ...(config.composeCycleTime
+      ? { growOutDays: ["sn7"], cleanoutDays: ["sn7"] }
+      : { sn6CycleTimeDays: ["sn7"] }),
+    sn10FarmCapacity: ["sn13", "sn14"],
+    sn11NumberOfHouses: ["sn13"],
+    sn12HouseArea: ["sn13"]
+  };
+  const derived = derivedGrowthInput(config);
+  if (derived) {
+    const source = growthSourceInput(config);
+    needed[source] = [...(needed[source] ?? []), ...(needed[derived] ?? [])];
+    delete needed[derived];
+  }
+  return needed;
+}
+
+// SN6 as entered, or the sum of its parts when the cycle is broken down.
+export function resolveCycleTime(
+  inputs: BroilerInputs,
+  config: BroilerConfig
+): number | null {
+  if (!config.composeCycleTime) return safeNumber(inputs.sn6CycleTimeDays);
+  const growOut = safeNumber(inputs.growOutDays);
+  const cleanout = safeNumber(inputs.cleanoutDays);
+  if (growOut == null || cleanout == null) return null;
+  return growOut + cleanout + (safeNumber(inputs.downtimeDays) ?? 0);
+}
+
+// Slack for floating point when comparing a density with its limit, so a
+// capacity derived from the limit is not itself reported as over it
+const DENSITY_TOLERANCE = 1e-9;
+
+const snLabel = (outputs: BroilerResultSn[]) =>
+  outputs.map((o) => o.toUpperCase()).join(", ");
+
+// `locale` is the number format used in diagnostic messages
 export function computeBroilerResults(
   rawInputs: BroilerInputs,
-  config: BroilerConfig
+  config: BroilerConfig,
+  horizon: BroilerHorizon = DEFAULT_HORIZON,
+  locale: string = activeNumberLocale()
 ): BroilerResults {
-  const inputs: BroilerInputs = {
+  const format = (value: number, options?: Intl.NumberFormatOptions) =>
+    formatNumber(value, options, locale);
+  const entered: BroilerInputs = {
     sn1TargetBroilerMeat: safeNumber(rawInputs.sn1TargetBroilerMeat),
     sn2HarvestBirdAvgWeight: safeNumber(rawInputs.sn2HarvestBirdAvgWeight),
     sn4PlannedMortality: safeNumber(rawInputs.sn4PlannedMortality),
@@ -21,24 +159,130 @@ export function computeBroilerResults(
     sn10FarmCapacity: safeNumber(rawInputs.sn10FarmCapacity),
     sn11NumberOfHouses: safeNumber(rawInputs.sn11NumberOfHouses),
     sn12HouseArea: safeNumber(rawInputs.sn12HouseArea),
-    yieldPercent: safeNumber(rawInputs.yieldPercent)
+    yieldPercent: safeNumber(rawInputs.yieldPercent),
+    growOutDays: safeNumber(rawInputs.growOutDays),
+    cleanoutDays: safeNumber(rawInputs.cleanoutDays),
+    downtimeDays: safeNumber(rawInputs.downtimeDays)
   };
+  const growth = applyGrowthCurve(entered, config);
+  const inputs = growth.inputs;
 
-  let hasDivisionByZero = false;
+  const diagnostics: BroilerDiagnostic[] = [];
 
-  const mortalityFraction = (() => {
-    const raw = inputs.sn4PlannedMortality;
-    if (raw == null) return null;
-    if (config.mortalityAsPercent) {
-      if (raw <= 0) return 0;
-      return raw / 100;
-    }
-    return raw;
-  })();
+  // The curve is not extrapolated, so the input it fills in stays blank
+  const derived = derivedGrowthInput(config);
+  if (derived && growth.outOfRange && config.growthCurve) {
+    const source = growthSourceInput(config);
+    // What the derived input feeds when it is entered by hand
+    const unlinked = outputsNeedingInput({ ...config, growthCurve: null });
+    const outputs = withDependents(...(unlinked[derived] ?? []));
+    const ends = config.growthCurve.points;
+    const first = ends[0];
+    const last = ends[ends.length - 1];
+    diagnostics.push({
+      code: "outsideGrowthCurve",
+      severity: "error",
+      inputs: [source],
+      outputs,
+      message: `${inputLabels[source]} is outside the growth curve (${
+        source === "growOutDays"
+          ? `${format(first.ageDays)}–${format(last.ageDays)} days`
+          : `${format(first.weightKg, { maximumFractionDigits: 3 })}–${format(last.weightKg, {
+              maximumFractionDigits: 3
+            })} kg`
+      }), so ${inputLabels[derived]} and ${snLabel(outputs)} cannot be calculated.`
+    });
+  }
+
+  const needed = outputsNeedingInput(config);
+  (Object.keys(needed) as (keyof BroilerInputs)[]).forEach((key) => {
+    if (inputs[key] != null) return;
+    const outputs = withDependents(...(needed[key] ?? []));
+    diagnostics.push({
+      code: "missingInput",
+      severity: "info",
+      inputs: [key],
+      outputs,
+      message: `${inputLabels[key]} is empty, so ${snLabel(outputs)} cannot be calculated yet.`
+    });
+  });
+
+  const zeroDenominator = (
+    keys: (keyof BroilerInputs)[],
+    outputs: BroilerResultSn[],
+    reason: string
+  ) => {
+    const affected = withDependents(...outputs);
+    diagnostics.push({
+      code: "zeroDenominator",
+      severity: "error",
+      inputs: keys,
+      outputs: affected,
+      message: `${reason}, so ${snLabel(affected)} cannot be calculated (division by zero).`
+    });
+  };
+
+  // Keeps a computed value only when it is finite
+  const finite = (
+    value: number,
+    output: BroilerResultSn,
+    keys: (keyof BroilerInputs)[]
+  ): number | undefined => {
+    if (Number.isFinite(value)) return value;
+    const affected = withDependents(output);
+    diagnostics.push({
+      code: "nonFiniteResult",
+      severity: "error",
+      inputs: keys,
+      outputs: affected,
+      message: `${output.toUpperCase()} is too large or not a number; check ${keys
+        .map((k) => inputLabels[k])
+        .join(", ")}.`
+    });
+    return undefined;
+  };
+
+  // SN1 is an annual target; totals are scaled to the horizon length.
+  const horizonDays = resolveHorizonDays(horizon, config);
+  const horizonYears =
+    horizonDays != null ? horizonDays / daysPerYear(config) : null;
+
+  // A custom horizon without a positive day count cannot be scaled
+  if (horizonDays == null) {
+    const outputs = withDependents("sn3", "sn7");
+    diagnostics.push({
+      code: "invalidHorizon",
+      severity: "error",
+      inputs: ["customDays"],
+      outputs,
+      message: `The custom horizon needs a positive number of days, so ${snLabel(
+        outputs
+      )} cannot be calculated.`
+    });
+  }
 
+  // Mortality must leave some birds alive; otherwise placements stay blank
+  const rawMortality = inputs.sn4PlannedMortality;
   const mortalityValid =
-    mortalityFraction == null ||
-    (mortalityFraction >= 0 && mortalityFraction < 1);
+    rawMortality == null ||
+    inRange(rawMortality, inputSchema.sn4PlannedMortality.range(config));
+  const survival =
+    rawMortality != null && mortalityValid
+      ? 1 - (config.mortalityAsPercent ? rawMortality / 100 : rawMortality)
+      : null;
+
+  if (!mortalityValid) {
+    const outputs = withDependents("sn5", "sn9");
+    diagnostics.push({
+      code: "invalidMortality",
+      severity: "error",
+      inputs: ["sn4PlannedMortality"],
+      outputs,
+      message: `${inputSchema.sn4PlannedMortality.rangeMessage(
+        config
+      )} Until then ${snLabel(outputs)} cannot be calculated.`
+    });
+  }
 
   // SN3
   let sn3HarvestBirdsNumber: number | undefined;
@@ -49,76 +293,103 @@ export function computeBroilerResults(
     const sn1 = inputs.sn1TargetBroilerMeat;
     const sn2 = inputs.sn2HarvestBirdAvgWeight;
     if (sn2 === 0) {
-      hasDivisionByZero = true;
+      zeroDenominator(["sn2HarvestBirdAvgWeight"], ["sn3"], "SN2 Harvest Birds Average Weight is 0");
     } else {
       let birds: number | null = null;
       if (config.unitsMode === "tonsPerYear_kgPerBird") {
         birds = (sn1 * 1000) / sn2;
       } else if (config.unitsMode === "kgPerYear_kgPerBird") {
         birds = sn1 / sn2;
-      } else if (config.unitsMode === "meatTonsWithYield" && config.useYield) {
+      } else if (config.unitsMode === "meatTonsWithYield") {
         const yieldPct =
-          inputs.yieldPercent != null && inputs.yieldPercent > 0
+          config.useYield && inputs.yieldPercent != null && inputs.yieldPercent > 0
             ? inputs.yieldPercent
             : null;
         if (yieldPct == null) {
-          birds = null;
+          const outputs = withDependents("sn3");
+          diagnostics.push({
+            code: "missingYield",
+            severity: "error",
+            inputs: ["yieldPercent"],
+            outputs,
+            message: config.useYield
+              ? `Meat/carcass mode needs a Yield % above 0, so ${snLabel(
+                  outputs
+                )} cannot be calculated.`
+              : `Meat/carcass mode needs "Use Yield %" turned on, so ${snLabel(
+                  outputs
+                )} cannot be calculated.`
+          });
         } else {
           birds = (sn1 * 1000 * (100 / yieldPct)) / sn2;
         }
       }
-      if (birds != null && Number.isFinite(birds)) {
-        sn3HarvestBirdsNumber = birds;
+      if (birds != null && horizonYears != null) {
+        sn3HarvestBirdsNumber = finite(birds * horizonYears, "sn3", [
+          "sn1TargetBroilerMeat",
+          "sn2HarvestBirdAvgWeight"
+        ]);
       }
     }
   }
 
   // SN5
   let sn5OverallPlacement: number | undefined;
-  if (sn3HarvestBirdsNumber != null && mortalityFraction != null) {
-    const denom = 1 - mortalityFraction;
-    if (denom === 0) {
-      hasDivisionByZero = true;
-    } else {
-      sn5OverallPlacement = sn3HarvestBirdsNumber / denom;
-    }
+  if (sn3HarvestBirdsNumber != null && survival != null) {
+    sn5OverallPlacement = finite(sn3HarvestBirdsNumber / survival, "sn5", [
+      "sn4PlannedMortality"
+    ]);
   }
 
-  // SN7
+  // SN6 and SN7
+  const cycleKeys = cycleTimeKeys(config);
+  const sn6CycleTimeDays = resolveCycleTime(inputs, config);
   let sn7CyclesPerYear: number | undefined;
-  if (inputs.sn6CycleTimeDays != null) {
-    const daysPerYear = config.useLeapYearCycles ? 365.25 : 365;
-    const denom = inputs.sn6CycleTimeDays;
+  if (sn6CycleTimeDays != null && horizonDays != null) {
+    const denom = sn6CycleTimeDays;
     if (denom === 0) {
-      hasDivisionByZero = true;
+      zeroDenominator(cycleKeys, ["sn7"], "SN6 Broiler Cycle Time is 0");
     } else {
-      let value = daysPerYear / denom;
+      let value = horizonDays / denom;
       if (config.useFullCyclesOnly) {
         value = Math.floor(value);
       }
-      sn7CyclesPerYear = value;
+      sn7CyclesPerYear = finite(value, "sn7", cycleKeys);
     }
   }
 
+  // Only known when the cycle is broken down: days with birds in the house
+  // over the horizon. Cycles left out by Full Cycles Only count as empty.
+  let stockedFraction: number | undefined;
+  if (
+    config.composeCycleTime &&
+    sn7CyclesPerYear != null &&
+    inputs.growOutDays != null &&
+    horizonDays != null
+  ) {
+    stockedFraction = Math.min((sn7CyclesPerYear * inputs.growOutDays) / horizonDays, 1);
+  }
+
   // SN8
   let sn8HarvestPerCycle: number | undefined;
   if (sn3HarvestBirdsNumber != null && sn7CyclesPerYear != null) {
     if (sn7CyclesPerYear === 0) {
-      hasDivisionByZero = true;
+      zeroDenominator(cycleKeys, ["sn8"], "No full cycle fits in the horizon (SN7 is 0)");
     } else {
-      sn8HarvestPerCycle = sn3HarvestBirdsNumber / sn7CyclesPerYear;
+      sn8HarvestPerCycle = finite(
+        sn3HarvestBirdsNumber / sn7CyclesPerYear,
+        "sn8",
+        cycleKeys
+      );
     }
   }
 
   // SN9
   let sn9PlacementPerCycle: number | undefined;
-  if (sn8HarvestPerCycle != null && mortalityFraction != null) {
-    const denom = 1 - mortalityFraction;
-    if (denom === 0) {
-      hasDivisionByZero = true;
-    } else {
-      sn9PlacementPerCycle = sn8HarvestPerCycle / denom;
-    }
+  if (sn8HarvestPerCycle != null && survival != null) {
+    sn9PlacementPerCycle = finite(sn8HarvestPerCycle / survival, "sn9", [
+      "sn4PlannedMortality"
+    ]);
   }
 
   // SN13
@@ -130,40 +401,126 @@ export function computeBroilerResults(
   ) {
     const denom = inputs.sn11NumberOfHouses * inputs.sn12HouseArea;
     if (denom === 0) {
-      hasDivisionByZero = true;
+      const zeroKeys = (["sn11NumberOfHouses", "sn12HouseArea"] as const).filter(
+        (key) => inputs[key] === 0
+      );
+      zeroDenominator(
+        zeroKeys,
+        ["sn13"],
+        `${zeroKeys.map((key) => inputLabels[key]).join(" and ")} ${
+          zeroKeys.length > 1 ? "are" : "is"
+        } 0`
+      );
     } else {
-      sn13Density = inputs.sn10FarmCapacity / denom;
+      sn13Density = finite(inputs.sn10FarmCapacity / denom, "sn13", [
+        "sn10FarmCapacity",
+        "sn11NumberOfHouses",
+        "sn12HouseArea"
+      ]);
     }
   }
 
   // SN14
   let sn14NumberOfFarms: number | undefined;
-  if (sn9PlacementPerCycle != null && inputs.sn10FarmCapacity != null) {
-    const denom = inputs.sn10FarmCapacity;
-    if (denom === 0) {
-      hasDivisionByZero = true;
-    } else {
-      sn14NumberOfFarms = sn9PlacementPerCycle / denom;
-    }
+  if (inputs.sn10FarmCapacity === 0) {
+    zeroDenominator(["sn10FarmCapacity"], ["sn14"], "SN10 Broiler Farm Capacity is 0");
+  } else if (sn9PlacementPerCycle != null && inputs.sn10FarmCapacity != null) {
+    sn14NumberOfFarms = finite(sn9PlacementPerCycle / inputs.sn10FarmCapacity, "sn14", [
+      "sn10FarmCapacity"
+    ]);
   }
 
-  // If mortality invalid, flag division risk but keep values null
-  if (!mortalityValid) {
-    hasDivisionByZero = true;
+  // SN13 as live weight, checked against the density limit. The compliant
+  // capacity is whole birds, rounded down so it never exceeds the limit.
+  let sn13DensityKgPerM2: number | undefined;
+  if (sn13Density != null && inputs.sn2HarvestBirdAvgWeight != null) {
+    sn13DensityKgPerM2 = sn13Density * inputs.sn2HarvestBirdAvgWeight;
+  }
+  const densityLimit = safeNumber(config.densityLimitKgPerM2);
+  let maxCompliantFarmCapacity: number | undefined;
+  let compliantNumberOfFarms: number | undefined;
+  if (
+    densityLimit != null &&
+    densityLimit > 0 &&
+    inputs.sn11NumberOfHouses != null &&
+    inputs.sn12HouseArea != null &&
+    inputs.sn2HarvestBirdAvgWeight != null &&
+    inputs.sn2HarvestBirdAvgWeight > 0
+  ) {
+    const capacity = Math.floor(
+      (densityLimit * inputs.sn11NumberOfHouses * inputs.sn12HouseArea) /
+        inputs.sn2HarvestBirdAvgWeight +
+        DENSITY_TOLERANCE
+    );
+    if (Number.isFinite(capacity) && capacity > 0) {
+      maxCompliantFarmCapacity = capacity;
+      if (sn9PlacementPerCycle != null) {
+        compliantNumberOfFarms = sn9PlacementPerCycle / capacity;
+      }
+    }
+  }
+  if (
+    densityLimit != null &&
+    sn13DensityKgPerM2 != null &&
+    sn13DensityKgPerM2 > densityLimit + DENSITY_TOLERANCE
+  ) {
+    diagnostics.push({
+      code: "densityLimitExceeded",
+      severity: "warning",
+      inputs: ["sn10FarmCapacity"],
+      outputs: [],
+      message: `SN13 Broiler Density is ${format(sn13DensityKgPerM2, {
+        maximumFractionDigits: 1
+      })} kg/m², above the ${format(densityLimit)} kg/m² limit.${
+        maxCompliantFarmCapacity != null
+          ? ` Lower SN10 Broiler Farm Capacity to ${format(
+              maxCompliantFarmCapacity
+            )} birds/cycle or fewer to comply.`
+          : ""
+      }`
+    });
   }
 
   return {
+    horizonDays: horizonDays ?? undefined,
+    sn6CycleTimeDays: sn6CycleTimeDays ?? undefined,
     sn3HarvestBirdsNumber,
     sn5OverallPlacement,
     sn7CyclesPerYear,
+    stockedFraction,
+    growthPoint: growth.point ?? undefined,
     sn8HarvestPerCycle,
     sn9PlacementPerCycle,
     sn13Density,
+    sn13DensityKgPerM2,
     sn14NumberOfFarms,
-    hasDivisionByZero
+    maxCompliantFarmCapacity,
+    compliantNumberOfFarms,
+    diagnostics
   };
 }
 
+// Diagnostics that stop results from being calculated
+export function blockingDiagnostics(results: BroilerResults): BroilerDiagnostic[] {
+  return results.diagnostics.filter((d) => d.severity === "error");
+}
+
+export function diagnosticsForOutput(
+  results: BroilerResults,
+  output: BroilerResultSn
+): BroilerDiagnostic[] {
+  return results.diagnostics.filter((d) => d.outputs.includes(output));
+}
+
+export function diagnosticsForInput(
+  results: BroilerResults,
+  key: keyof BroilerInputs | "customDays"
+): BroilerDiagnostic[] {
+  return results.diagnostics.filter(
+    (d) => d.severity !== "info" && d.inputs.includes(key)
+  );
+}
+
 function invertSn3ToSn1(
   sn3HarvestBirdsNumber: number,
   inputs: BroilerInputs,
@@ -200,10 +557,12 @@ export interface FarmsScenarioRow {
 }
 
 export function buildFarmScenarios(
-  inputs: BroilerInputs,
+  enteredInputs: BroilerInputs,
   config: BroilerConfig,
   baseResults: BroilerResults
 ): FarmsScenarioRow[] {
+  // SN2 as used, so SN1 is converted back with the weight the model ran on
+  const { inputs } = applyGrowthCurve(enteredInputs, config);
   const rows: FarmsScenarioRow[] = [];
   const baseFarms = baseResults.sn14NumberOfFarms;
   const mFraction = (() => {
@@ -270,11 +629,321 @@ export function buildFarmScenarios(
   return rows;
 }
 
+export type ScenarioParameterKey =
+  | "sn1"
+  | "sn2"
+  | "sn3"
+  | "sn4"
+  | "sn5"
+  | "sn6"
+  | "sn7"
+  | "sn8"
+  | "sn9"
+  | "sn10"
+  | "sn11"
+  | "sn12"
+  | "sn13"
+  | "sn14";
+
+export type ScenarioParameterValues = Record<ScenarioParameterKey, number | null>;
+
+// Fills in every SN parameter for one farm scenario row, deriving SN5, SN8,
+// SN13 and SN14 from the row's harvest and placement figures.
+export function expandFarmScenarioRow(
+  row: FarmsScenarioRow | undefined,
+  enteredInputs: BroilerInputs,
+  config: BroilerConfig,
+  results: BroilerResults
+): ScenarioParameterValues {
+  // SN2 as used, when a growth curve reads it from the grow-out age
+  const { inputs } = applyGrowthCurve(enteredInputs, config);
+  const mortRaw = inputs.sn4PlannedMortality;
+  const mortalityFraction =
+    mortRaw == null ? null : config.mortalityAsPercent ? mortRaw / 100 : mortRaw;
+  const sn7 = results.sn7CyclesPerYear ?? null;
+
+  const sn1 = row?.sn1TargetBroilerMeat ?? null;
+  const sn3 = row?.sn3HarvestBirdsNumber ?? null;
+  const sn9 = row?.sn9PlacementPerCycle ?? null;
+  const farms = row?.farms ?? null;
+
+  let sn5: number | null = null;
+  let sn8: number | null = null;
+  let sn13: number | null = null;
+  let sn14: number | null = null;
+
+  if (
+    sn3 != null &&
+    mortalityFraction != null &&
+    mortalityFraction >= 0 &&
+    mortalityFraction < 1
+  ) {
+    sn5 = sn3 / (1 - mortalityFraction);
+  }
+
+  if (sn3 != null && sn7 != null && sn7 > 0) {
+    sn8 = sn3 / sn7;
+  }
+
+  if (
+    inputs.sn10FarmCapacity != null &&
+    inputs.sn11NumberOfHouses != null &&
+    inputs.sn12HouseArea != null
+  ) {
+    const denom = inputs.sn11NumberOfHouses * inputs.sn12HouseArea;
+    sn13 = denom > 0 ? inputs.sn10FarmCapacity / denom : null;
+  }
+
+  if (sn9 != null && inputs.sn10FarmCapacity != null) {
+    const cap = inputs.sn10FarmCapacity;
+    sn14 = cap > 0 ? sn9 / cap : null;
+  } else if (farms != null) {
+    sn14 = farms;
+  }
+
+  return {
+    sn1,
+    sn2: inputs.sn2HarvestBirdAvgWeight,
+    sn3,
+    sn4: inputs.sn4PlannedMortality,
+    sn5,
+    sn6: results.sn6CycleTimeDays ?? null,
+    sn7,
+    sn8,
+    sn9,
+    sn10: inputs.sn10FarmCapacity,
+    sn11: inputs.sn11NumberOfHouses,
+    sn12: inputs.sn12HouseArea,
+    sn13,
+    sn14
+  };
+}
+
+const parameterInputKeys: Partial<Record<ScenarioParameterKey, keyof BroilerInputs>> = {
+  sn2: "sn2HarvestBirdAvgWeight",
+  sn4: "sn4PlannedMortality",
+  sn6: "sn6CycleTimeDays",
+  sn10: "sn10FarmCapacity",
+  sn11: "sn11NumberOfHouses",
+  sn12: "sn12HouseArea"
+};
+
+const resultSns: BroilerResultSn[] = ["sn3", "sn5", "sn7", "sn8", "sn9", "sn13", "sn14"];
+
+// Explains a blank cell of the full parameters table. SN1, SN3, SN5, SN8 and
+// SN9 are re-derived from each row's farm count, so they inherit SN14's
+// reasons.
+export function explainBlankParameter(
+  key: ScenarioParameterKey,
+  row: FarmsScenarioRow | undefined,
+  inputs: BroilerInputs,
+  results: BroilerResults
+): string {
+  const inputKey = parameterInputKeys[key];
+  if (inputKey) {
+    return inputs[inputKey] == null ? "Not entered yet." : "Not a valid number.";
+  }
+  let reasons = resultSns.includes(key as BroilerResultSn)
+    ? diagnosticsForOutput(results, key as BroilerResultSn)
+    : [];
+  if (reasons.length === 0 && key !== "sn7" && key !== "sn13") {
+    reasons = diagnosticsForOutput(results, "sn14");
+  }
+  if (reasons.length > 0) return reasons.map((d) => d.message).join(" ");
+  if (row?.farms === 0) return "Rounding down leaves 0 farms, so there is nothing to place.";
+  if (key === "sn1" && inputs.sn2HarvestBirdAvgWeight != null) {
+    return "SN1 cannot be converted back from birds with the current units mode.";
+  }
+  return "Could not be calculated from the current inputs.";
+}
+
+// Building an Intl.NumberFormat is far slower than using one, and diagnostic
+// messages are formatted on every model run (thousands in a Monte Carlo).
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
 export function formatNumber(
   value: number | undefined,
-  options: Intl.NumberFormatOptions = {}
+  options: Intl.NumberFormatOptions = {},
+  locale: string = activeNumberLocale()
 ): string {
   if (value == null || !Number.isFinite(value)) return "—";
-  return new Intl.NumberFormat("en-US", options).format(value);
+  const key = `${locale} ${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
 }
 
+
+export type BroilerOutputKey = Exclude<
+  keyof BroilerResults,
+  "diagnostics" | "horizonDays" | "growthPoint"
+>;
+
+export const broilerOutputOptions: { key: BroilerOutputKey; label: string }[] = [
+  { key: "sn14NumberOfFarms", label: "SN14 · Broiler No. of Farms" },
+  { key: "sn9PlacementPerCycle", label: "SN9 · Broiler Placement Per Cycle" },
+  { key: "sn8HarvestPerCycle", label: "SN8 · Broiler Harvest Per Cycle" },
+  { key: "sn7CyclesPerYear", label: "SN7 · Broiler Cycles" },
+  { key: "sn5OverallPlacement", label: "SN5 · Overall Broiler Placement" },
+  { key: "sn3HarvestBirdsNumber", label: "SN3 · Harvest Birds Number" },
+  { key: "sn13Density", label: "SN13 · Broiler Density" },
+  { key: "sn13DensityKgPerM2", label: "SN13 · Broiler Density (kg/m²)" }
+];
+
+export type GoalSeekResult =
+  | {
+      status: "solved";
+      value: number;
+      achieved: number;
+      // False when the output moves in steps (e.g. Full Cycles Only) and the
+      // closest reachable value was returned instead of the exact target.
+      exact: boolean;
+    }
+  | { status: "infeasible"; reason: string };
+
+export interface GoalSeekOptions {
+  inputs: BroilerInputs;
+  config: BroilerConfig;
+  horizon?: BroilerHorizon;
+  variable: keyof BroilerInputs;
+  output: BroilerOutputKey;
+  target: number;
+  bounds?: [number, number];
+}
+
+// Search ranges used when the caller does not supply bounds. Wide ranges are
+// scanned geometrically, so the lower bound must stay positive.
+const goalSeekBounds: Record<keyof BroilerInputs, [number, number]> = {
+  sn1TargetBroilerMeat: [1e-3, 1e10],
+  sn2HarvestBirdAvgWeight: [0.05, 20],
+  sn4PlannedMortality: [0, 99.999],
+  sn6CycleTimeDays: [1, 1095],
+  sn10FarmCapacity: [1, 1e8],
+  sn11NumberOfHouses: [1e-3, 1e4],
+  sn12HouseArea: [1e-3, 1e6],
+  yieldPercent: [1e-3, 100],
+  growOutDays: [1, 365],
+  cleanoutDays: [0, 365],
+  downtimeDays: [0, 365]
+};
+
+const GOAL_SEEK_SAMPLES = 400;
+const GOAL_SEEK_ITERATIONS = 200;
+
+/**
+ * Holds every input but `variable` fixed and searches for the value of
+ * `variable` that makes `output` equal `target`.
+ */
+export function goalSeek(options: GoalSeekOptions): GoalSeekResult {
+  const { inputs, config, variable, output, target } = options;
+  const horizon = options.horizon ?? DEFAULT_HORIZON;
+  if (!Number.isFinite(target)) {
+    return { status: "infeasible", reason: "Target must be a number." };
+  }
+
+  let [lo, hi] = options.bounds ?? goalSeekBounds[variable];
+  if (variable === "sn4PlannedMortality" && !config.mortalityAsPercent && !options.bounds) {
+    hi = 0.99999;
+  }
+  if (!(hi > lo)) {
+    return { status: "infeasible", reason: "Search range is empty." };
+  }
+
+  const evaluate = (x: number): number | null => {
+    const value = computeBroilerResults(
+      { ...inputs, [variable]: x },
+      config,
+      horizon
+    )[output];
+    return value != null && Number.isFinite(value) ? value : null;
+  };
+
+  const geometric = lo > 0 && hi / lo > 1000;
+  const sampleAt = (i: number) =>
+    geometric
+      ? lo * Math.pow(hi / lo, i / GOAL_SEEK_SAMPLES)
+      : lo + ((hi - lo) * i) / GOAL_SEEK_SAMPLES;
+
+  let prevX: number | null = null;
+  let prevY: number | null = null;
+  let best: { x: number; y: number } | null = null;
+
+  for (let i = 0; i <= GOAL_SEEK_SAMPLES; i += 1) {
+    const x = sampleAt(i);
+    const y = evaluate(x);
+    if (y == null) {
+      prevX = null;
+      prevY = null;
+      continue;
+    }
+    if (best == null || Math.abs(y - target) < Math.abs(best.y - target)) {
+      best = { x, y };
+    }
+    if (y === target) {
+      return { status: "solved", value: x, achieved: y, exact: true };
+    }
+    if (prevX != null && prevY != null && (prevY - target) * (y - target) < 0) {
+      return bisect(prevX, x, prevY, evaluate, target);
+    }
+    prevX = x;
+    prevY = y;
+  }
+
+  if (best == null) {
+    return {
+      status: "infeasible",
+      reason: "The output cannot be calculated from the other inputs."
+    };
+  }
+  return {
+    status: "infeasible",
+    reason: `The target is out of reach. Closest achievable value is ${formatNumber(
+      best.y,
+      { maximumFractionDigits: 3 }
+    )} at ${formatNumber(best.x, { maximumFractionDigits: 4 })}.`
+  };
+}
+
+function bisect(
+  lo: number,
+  hi: number,
+  yLo: number,
+  evaluate: (x: number) => number | null,
+  target: number
+): GoalSeekResult {
+  let a = lo;
+  let b = hi;
+  let fa = yLo - target;
+  for (let i = 0; i < GOAL_SEEK_ITERATIONS; i += 1) {
+    const mid = (a + b) / 2;
+    const y = evaluate(mid);
+    if (y == null) break;
+    const fm = y - target;
+    if (fm === 0 || Math.abs(b - a) <= Math.abs(mid) * 1e-12) {
+      a = mid;
+      b = mid;
+      break;
+    }
+    if (fa * fm < 0) {
+      b = mid;
+    } else {
+      a = mid;
+      fa = fm;
+    }
+  }
+  const value = (a + b) / 2;
+  const achieved = evaluate(value);
+  if (achieved == null) {
+    return { status: "infeasible", reason: "The solver left the valid input range." };
+  }
+  const tolerance = Math.max(Math.abs(target) * 1e-6, 1e-9);
+  return {
+    status: "solved",
+    value,
+    achieved,
+    exact: Math.abs(achieved - target) <= tolerance
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { computeBroilerResults } from "./calculations";
+import { buildPlacementSchedule } from "./calendar";
+import type { CalendarOptions, PlacementSchedule, StaggerStrategy } from "./calendar";
+import { sheetConfig, sheetScenario } from "./fixtures/scenario";
+
+const scenario = sheetScenario({ config: { ...sheetConfig, useFullCyclesOnly: true } });
+const results = computeBroilerResults(scenario.inputs, scenario.config);
+
+const schedule = (stagger: StaggerStrategy): PlacementSchedule => {
+  const options: CalendarOptions = {
+    startDate: "2024-01-01",
+    cleanoutDays: 10,
+    stagger,
+    intervalDays: 7,
+    unit: "farm"
+  };
+  const result = buildPlacementSchedule(scenario, results, options);
+  if (!result.ok) throw new Error(result.reason);
+  return result.schedule;
+};
+
+describe("buildPlacementSchedule", () => {
+  it("harvests SN3 when every farm starts on the first day", () => {
+    const { totalHarvested, shortfall } = schedule("none");
+    expect(totalHarvested).toBeCloseTo(results.sn3HarvestBirdsNumber as number, 3);
+    expect(shortfall).toBeLessThan(1);
+  });
+
+  it.each<StaggerStrategy>(["even", "interval"])(
+    "reports the birds %s staggering leaves unharvested",
+    (stagger) => {
+      const { lanes, totalHarvested, shortfall } = schedule(stagger);
+      expect(lanes.some((lane) => lane.cycles.length < lanes[0].cycles.length)).toBe(true);
+      expect(shortfall).toBeGreaterThan(1);
+      expect(totalHarvested + shortfall).toBeCloseTo(results.sn3HarvestBirdsNumber as number, 3);
+    }
+  );
+});
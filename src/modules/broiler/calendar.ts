@@ -0,0 +1,365 @@
+import { applyGrowthCurve } from "./growth";
+import { allocatePortfolio } from "./portfolio";
+import type { BroilerResults, BroilerScenario } from "./types";
+
+// How the first placements of the farms (or houses) are spread out:
+//   none     - everything is placed on the start date
+//   even     - first placements spread evenly over one cycle
+//   interval - each one starts a fixed number of days after the previous
+export type StaggerStrategy = "none" | "even" | "interval";
+
+export type ScheduleUnit = "farm" | "house";
+
+export const staggerStrategyLabels: Record<StaggerStrategy, string> = {
+  none: "All on the start date",
+  even: "Spread evenly over one cycle",
+  interval: "Fixed interval"
+};
+
+export interface CalendarOptions {
+  // First placement, YYYY-MM-DD
+  startDate: string;
+  // Days of each cycle spent cleaning out and resting the house
+  cleanoutDays: number;
+  stagger: StaggerStrategy;
+  // Days between first placements with the "interval" strategy
+  intervalDays: number;
+  unit: ScheduleUnit;
+}
+
+export interface ScheduledCycle {
+  cycle: number;
+  placement: Date;
+  harvest: Date;
+  // Day the house is ready again, i.e. the next placement
+  readyAgain: Date;
+  birdsPlaced: number;
+  birdsHarvested: number;
+}
+
+export interface ScheduleLane {
+  id: string;
+  farm: string;
+  // Set when scheduling by house
+  house?: number;
+  cycles: ScheduledCycle[];
+}
+
+export interface PlacementSchedule {
+  start: Date;
+  // Last day of the horizon
+  end: Date;
+  lanes: ScheduleLane[];
+  // Monday of each week from start to end, with the birds harvested that week
+  weeklyHarvest: { weekStart: Date; birds: number }[];
+  totalHarvested: number;
+  // Birds SN3 plans over the horizon that no listed cycle harvests: partial
+  // cycles at the end, and the cycles staggered lanes lose by starting later
+  shortfall: number;
+}
+
+export type ScheduleResult =
+  | { ok: true; schedule: PlacementSchedule }
+  | { ok: false; reason: string };
+
+// Beyond this many farms or houses the timeline is no longer readable
+export const MAX_SCHEDULE_LANES = 200;
+
+// Keeps very long custom horizons from generating an unusable schedule
+export const MAX_SCHEDULED_CYCLES = 20000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are whole days in UTC so that daylight saving never shifts them.
+export function parseDateInput(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+export const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export const daysBetween = (from: Date, to: Date) =>
+  Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+const weekStartOf = (date: Date) => addDays(date, -((date.getUTCDay() + 6) % 7));
+
+// Farms to schedule and the birds each places per cycle: the portfolio's
+// allocation plus standard farms for any shortfall, or SN14 (rounded up)
+// standard farms sharing SN9 when there is no portfolio.
+function scheduleFarms(
+  scenario: BroilerScenario,
+  results: BroilerResults,
+  placement: number
+): { name: string; houses: number | null; birds: number }[] {
+  const standardHouses = scenario.inputs.sn11NumberOfHouses;
+  const standardFarms = (count: number, birds: number, prefix: string) =>
+    Array.from({ length: count }, (_, i) => ({
+      name: `${prefix} ${i + 1}`,
+      houses: standardHouses,
+      birds: birds / count
+    }));
+
+  if (scenario.farms.length === 0) {
+    const count = Math.ceil(results.sn14NumberOfFarms ?? 1);
+    return standardFarms(Math.max(count, 1), placement, "Farm");
+  }
+  const allocation = allocatePortfolio(scenario, results);
+  const farms = allocation.farms
+    .filter((f) => f.allocated > 0)
+    .map((f) => ({
+      name: f.farm.name || "Unnamed farm",
+      houses: f.farm.houses,
+      birds: f.allocated
+    }));
+  const extra = allocation.additionalStandardFarms ?? 0;
+  return extra > 0
+    ? [...farms, ...standardFarms(extra, allocation.shortfall, "Additional farm")]
+    : farms;
+}
+
+/**
+ * Concrete placement and harvest dates for every farm (or house) over the
+ * scenario's horizon. Each cycle lasts SN6 days: the birds grow for SN6 minus
+ * the cleanout days and are harvested, and the house is placed again once
+ * cleaned. When SN6 is composed, its own grow-out age is used and the
+ * cleanout option is ignored. Only cycles harvested within the horizon are
+ * listed.
+ */
+export function buildPlacementSchedule(
+  scenario: BroilerScenario,
+  results: BroilerResults,
+  options: CalendarOptions
+): ScheduleResult {
+  const start = parseDateInput(options.startDate);
+  if (!start) return { ok: false, reason: "Choose a start date." };
+  const cycleDays = results.sn6CycleTimeDays;
+  const placement = results.sn9PlacementPerCycle;
+  const horizonDays = results.horizonDays;
+  if (cycleDays == null || !(cycleDays > 0) || placement == null || horizonDays == null) {
+    return {
+      ok: false,
+      reason: "Fill in the broiler inputs so that SN9 and the horizon can be calculated."
+    };
+  }
+  const composed = scenario.config.composeCycleTime;
+  const growOutDays = composed
+    ? applyGrowthCurve(scenario.inputs, scenario.config).inputs.growOutDays ?? NaN
+    : cycleDays - options.cleanoutDays;
+  if (composed && !(growOutDays >= 1)) {
+    return { ok: false, reason: "The grow-out age at harvest must be at least one day." };
+  }
+  if (!composed && (!(options.cleanoutDays >= 0) || !(growOutDays >= 1))) {
+    return {
+      ok: false,
+      reason: "Cleanout must be at least 0 days and leave at least one day of grow-out within SN6."
+    };
+  }
+  if (options.stagger === "interval" && !(options.intervalDays >= 0)) {
+    return { ok: false, reason: "The stagger interval must be 0 days or more." };
+  }
+
+  const lanes: { farm: string; house?: number; birds: number }[] = scheduleFarms(
+    scenario,
+    results,
+    placement
+  ).flatMap((farm) => {
+    if (options.unit === "farm") return [{ farm: farm.name, birds: farm.birds }];
+    const houses = Math.max(Math.round(farm.houses ?? 1), 1);
+    return Array.from({ length: houses }, (_, i) => ({
+      farm: farm.name,
+      house: i + 1,
+      birds: farm.birds / houses
+    }));
+  });
+  if (lanes.length > MAX_SCHEDULE_LANES) {
+    return {
+      ok: false,
+      reason: `That is ${lanes.length} timelines; schedule by farm or reduce the plan to ${MAX_SCHEDULE_LANES} or fewer.`
+    };
+  }
+  if ((horizonDays / cycleDays) * lanes.length > MAX_SCHEDULED_CYCLES) {
+    return {
+      ok: false,
+      reason: `The horizon holds more than ${MAX_SCHEDULED_CYCLES} cycles; shorten it or schedule by farm.`
+    };
+  }
+
+  const mortality = scenario.inputs.sn4PlannedMortality ?? 0;
+  const survival = 1 - (scenario.config.mortalityAsPercent ? mortality / 100 : mortality);
+  const lastDay = Math.floor(horizonDays) - 1;
+  const offsetOf = (index: number) =>
+    options.stagger === "even"
+      ? Math.floor((index * cycleDays) / lanes.length)
+      : options.stagger === "interval"
+        ? index * options.intervalDays
+        : 0;
+
+  const scheduleLanes: ScheduleLane[] = lanes.map((lane, index) => {
+    const cycles: ScheduledCycle[] = [];
+    for (let cycle = 0; ; cycle += 1) {
+      const placedOn = Math.round(offsetOf(index) + cycle * cycleDays);
+      const harvestedOn = Math.round(placedOn + growOutDays);
+      if (harvestedOn > lastDay) break;
+      cycles.push({
+        cycle: cycle + 1,
+        placement: addDays(start, placedOn),
+        harvest: addDays(start, harvestedOn),
+        readyAgain: addDays(start, Math.round(offsetOf(index) + (cycle + 1) * cycleDays)),
+        birdsPlaced: lane.birds,
+        birdsHarvested: lane.birds * survival
+      });
+    }
+    return {
+      id: `lane-${index}`,
+      farm: lane.farm,
+      house: lane.house,
+      cycles
+    };
+  });
+
+  const end = addDays(start, lastDay);
+  const weekly = new Map<number, number>();
+  for (let week = weekStartOf(start); week <= end; week = addDays(week, 7)) {
+    weekly.set(week.getTime(), 0);
+  }
+  let totalHarvested = 0;
+  scheduleLanes.forEach((lane) =>
+    lane.cycles.forEach((c) => {
+      const key = weekStartOf(c.harvest).getTime();
+      weekly.set(key, (weekly.get(key) ?? 0) + c.birdsHarvested);
+      totalHarvested += c.birdsHarvested;
+    })
+  );
+
+  return {
+    ok: true,
+    schedule: {
+      start,
+      end,
+      lanes: scheduleLanes,
+      weeklyHarvest: Array.from(weekly, ([time, birds]) => ({
+        weekStart: new Date(time),
+        birds
+      })),
+      totalHarvested,
+      shortfall: Math.max((results.sn3HarvestBirdsNumber ?? 0) - totalHarvested, 0)
+    }
+  };
+}
+
+export const laneLabel = (lane: ScheduleLane) =>
+  lane.house != null ? `${lane.farm} · house ${lane.house}` : lane.farm;
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Raw numbers and ISO dates so that any spreadsheet reads them
+export function scheduleToCsv(schedule: PlacementSchedule): string {
+  const rows: string[][] = [
+    [
+      "Farm",
+      "House",
+      "Cycle",
+      "Placement date",
+      "Harvest date",
+      "Ready again",
+      "Birds placed",
+      "Birds harvested"
+    ],
+    ...schedule.lanes.flatMap((lane) =>
+      lane.cycles.map((c) => [
+        lane.farm,
+        lane.house != null ? String(lane.house) : "",
+        String(c.cycle),
+        toDateInput(c.placement),
+        toDateInput(c.harvest),
+        toDateInput(c.readyAgain),
+        String(Math.round(c.birdsPlaced)),
+        String(Math.round(c.birdsHarvested))
+      ])
+    ),
+    [],
+    ["Week starting", "Birds harvested"],
+    ...schedule.weeklyHarvest.map((w) => [
+      toDateInput(w.weekStart),
+      String(Math.round(w.birds))
+    ])
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+const icsText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+
+const icsDate = (date: Date) => toDateInput(date).replace(/-/g, "");
+
+// RFC 5545 lines may be at most 75 octets; longer ones continue after a
+// CRLF and a space.
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (new TextEncoder().encode(rest).length > 75) {
+    let cut = 74;
+    while (new TextEncoder().encode(rest.slice(0, cut)).length > 74) cut -= 1;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join("\r\n ");
+}
+
+/**
+ * All-day placement and harvest events for a calendar app. UIDs are derived
+ * from the scenario, lane and cycle, so importing a regenerated schedule
+ * updates the events instead of duplicating them.
+ */
+export function scheduleToIcs(
+  schedule: PlacementSchedule,
+  scenario: Pick<BroilerScenario, "id" | "name">
+): string {
+  const stamp = `${new Date().toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+  const scenarioName = scenario.name || "Untitled scenario";
+  const event = (uid: string, date: Date, summary: string, description: string) => [
+    "BEGIN:VEVENT",
+    `UID:${uid}@broiler-planner`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(date)}`,
+    `DTEND;VALUE=DATE:${icsDate(addDays(date, 1))}`,
+    `SUMMARY:${icsText(summary)}`,
+    `DESCRIPTION:${icsText(description)}`,
+    "END:VEVENT"
+  ];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Planning Assistant//Broiler calendar//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(scenarioName)}`,
+    ...schedule.lanes.flatMap((lane, index) =>
+      lane.cycles.flatMap((c) => {
+        const uid = `${scenario.id}-${index}-${c.cycle}`;
+        const label = `${laneLabel(lane)}, cycle ${c.cycle}`;
+        return [
+          ...event(
+            `${uid}-placement`,
+            c.placement,
+            `Placement: ${label}`,
+            `${Math.round(c.birdsPlaced)} birds placed (${scenarioName}).`
+          ),
+          ...event(
+            `${uid}-harvest`,
+            c.harvest,
+            `Harvest: ${label}`,
+            `${Math.round(c.birdsHarvested)} birds harvested (${scenarioName}).`
+          )
+        ];
+      })
+    ),
+    "END:VCALENDAR"
+  ];
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
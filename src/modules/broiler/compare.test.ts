@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { buildScenarioComparison } from "./compare";
+import type { ComparableScenario } from "./compare";
+import { sheetConfig, sheetInputs, sheetScenario } from "./fixtures/scenario";
+import { growthCurvePresets } from "./growth";
+import type { BroilerConfig } from "./types";
+
+const scenario = (id: string, config: Partial<BroilerConfig>): ComparableScenario =>
+  sheetScenario({
+    id,
+    inputs: { ...sheetInputs, growOutDays: 35, cleanoutDays: 14, downtimeDays: 4 },
+    config: { ...sheetConfig, composeCycleTime: true, ...config }
+  });
+
+describe("buildScenarioComparison", () => {
+  it("shows SN2 as read from the growth curve, not the entered weight", () => {
+    const linked = scenario("linked", {
+      growthCurve: growthCurvePresets[0],
+      growthDerive: "weight"
+    });
+    const { rows } = buildScenarioComparison([scenario("entered", {}), linked], "entered");
+    const sn2 = rows.find((row) => row.sn === "SN2");
+
+    expect(sn2?.cells[0].value).toBe(1.8);
+    expect(sn2?.cells[1].value).toBeCloseTo(2.333, 6);
+    expect(sn2?.cells[1].delta).toBeCloseTo(0.533, 6);
+  });
+});
@@ -0,0 +1,140 @@
+import { computeBroilerResults, horizonUnitLabel } from "./calculations";
+import { describeDensityLimit } from "./density";
+import { applyGrowthCurve, describeGrowthLink } from "./growth";
+import type {
+  BroilerConfig,
+  BroilerInputs,
+  BroilerResults,
+  BroilerScenario
+} from "./types";
+
+// Anything with assumptions can be compared: saved scenarios or revisions
+export type ComparableScenario = Pick<
+  BroilerScenario,
+  "id" | "timeHorizon" | "customDays" | "inputs" | "config"
+>;
+
+export interface ComparisonCell {
+  value: number | null;
+  delta: number | null;
+  deltaPercent: number | null;
+}
+
+export interface ComparisonRow {
+  // Absent for inputs outside the SN numbering
+  sn?: string;
+  label: string;
+  cells: ComparisonCell[];
+}
+
+export interface ConfigComparisonRow {
+  label: string;
+  values: string[];
+  differs: boolean[];
+}
+
+type ValueSource =
+  | { from: "inputs"; key: keyof BroilerInputs }
+  | { from: "results"; key: keyof Omit<BroilerResults, "diagnostics" | "horizonDays"> };
+
+// Every input, so a revision diff lists each edited field, and the outputs
+const snRows: { sn?: string; label: string; source: ValueSource }[] = [
+  { sn: "SN1", label: "Target Broiler Meat", source: { from: "inputs", key: "sn1TargetBroilerMeat" } },
+  { label: "Yield %", source: { from: "inputs", key: "yieldPercent" } },
+  { sn: "SN2", label: "Harvest Birds Average Weight", source: { from: "inputs", key: "sn2HarvestBirdAvgWeight" } },
+  { sn: "SN3", label: "Harvest Birds Number", source: { from: "results", key: "sn3HarvestBirdsNumber" } },
+  { sn: "SN4", label: "Planned Mortality", source: { from: "inputs", key: "sn4PlannedMortality" } },
+  { sn: "SN5", label: "Overall Broiler Placement", source: { from: "results", key: "sn5OverallPlacement" } },
+  { label: "Grow-out Age at Harvest", source: { from: "inputs", key: "growOutDays" } },
+  { label: "Cleanout Days", source: { from: "inputs", key: "cleanoutDays" } },
+  { label: "Downtime Buffer", source: { from: "inputs", key: "downtimeDays" } },
+  { sn: "SN6", label: "Broiler Cycle Time", source: { from: "results", key: "sn6CycleTimeDays" } },
+  { sn: "SN7", label: "Broiler Cycles In Horizon", source: { from: "results", key: "sn7CyclesPerYear" } },
+  { sn: "SN8", label: "Broiler Harvest Per Cycle", source: { from: "results", key: "sn8HarvestPerCycle" } },
+  { sn: "SN9", label: "Broiler Placement Per Cycle", source: { from: "results", key: "sn9PlacementPerCycle" } },
+  { sn: "SN10", label: "Broiler Farm Capacity", source: { from: "inputs", key: "sn10FarmCapacity" } },
+  { sn: "SN11", label: "Broiler No. of Houses", source: { from: "inputs", key: "sn11NumberOfHouses" } },
+  { sn: "SN12", label: "Broiler House Area", source: { from: "inputs", key: "sn12HouseArea" } },
+  { sn: "SN13", label: "Broiler Density", source: { from: "results", key: "sn13Density" } },
+  { sn: "SN14", label: "Broiler No. of Farms", source: { from: "results", key: "sn14NumberOfFarms" } }
+];
+
+const configRows: {
+  label: string;
+  describe: (scenario: ComparableScenario) => string;
+}[] = [
+  { label: "Time horizon", describe: (s) => horizonUnitLabel(s) },
+  { label: "Units mode", describe: (s) => s.config.unitsMode },
+  { label: "Use Yield %", describe: (s) => describeFlag(s.config, "useYield") },
+  { label: "Full Cycles Only", describe: (s) => describeFlag(s.config, "useFullCyclesOnly") },
+  { label: "365.25 days/year", describe: (s) => describeFlag(s.config, "useLeapYearCycles") },
+  { label: "Mortality as percent", describe: (s) => describeFlag(s.config, "mortalityAsPercent") },
+  { label: "Cycle time from parts", describe: (s) => describeFlag(s.config, "composeCycleTime") },
+  { label: "Density limit", describe: (s) => describeDensityLimit(s.config) },
+  { label: "Growth curve", describe: (s) => describeGrowthLink(s.config) }
+];
+
+function describeFlag(
+  config: BroilerConfig,
+  key:
+    | "useYield"
+    | "useFullCyclesOnly"
+    | "useLeapYearCycles"
+    | "mortalityAsPercent"
+    | "composeCycleTime"
+): string {
+  return config[key] ? "On" : "Off";
+}
+
+export function buildScenarioComparison(
+  scenarios: ComparableScenario[],
+  referenceId: string
+): { rows: ComparisonRow[]; configRows: ConfigComparisonRow[] } {
+  const referenceIndex = Math.max(
+    0,
+    scenarios.findIndex((s) => s.id === referenceId)
+  );
+  const results = scenarios.map((s) =>
+    computeBroilerResults(s.inputs, s.config, {
+      timeHorizon: s.timeHorizon,
+      customDays: s.customDays
+    })
+  );
+
+  // Inputs as used, e.g. SN2 read from the growth curve rather than a stale entry
+  const inputs = scenarios.map((s) => applyGrowthCurve(s.inputs, s.config).inputs);
+
+  const valueOf = (index: number, source: ValueSource): number | null => {
+    const raw =
+      source.from === "inputs"
+        ? inputs[index][source.key]
+        : results[index][source.key];
+    return typeof raw === "number" && Number.isFinite(raw) ? raw : null;
+  };
+
+  const rows = snRows.map((row) => {
+    const reference = valueOf(referenceIndex, row.source);
+    const cells = scenarios.map((_, index) => {
+      const value = valueOf(index, row.source);
+      const delta =
+        value != null && reference != null ? value - reference : null;
+      const deltaPercent =
+        delta != null && reference != null && reference !== 0
+          ? (delta / reference) * 100
+          : null;
+      return { value, delta, deltaPercent };
+    });
+    return { sn: row.sn, label: row.label, cells };
+  });
+
+  const configComparison = configRows.map((row) => {
+    const values = scenarios.map((s) => row.describe(s));
+    return {
+      label: row.label,
+      values,
+      differs: values.map((v) => v !== values[referenceIndex])
+    };
+  });
+
+  return { rows, configRows: configComparison };
+}
@@ -0,0 +1,21 @@
+import { formatNumber } from "./calculations";
+import type { BroilerConfig } from "./types";
+
+export interface DensityLimitPreset {
+  kgPerM2: number;
+  label: string;
+}
+
+// Live weight limits of the EU broiler directive (2007/43/EC): the standard
+// limit and the two derogation tiers for farms meeting extra requirements.
+export const densityLimitPresets: DensityLimitPreset[] = [
+  { kgPerM2: 33, label: "33 kg/m² · EU standard" },
+  { kgPerM2: 39, label: "39 kg/m² · EU derogation" },
+  { kgPerM2: 42, label: "42 kg/m² · EU derogation, low mortality record" }
+];
+
+export function describeDensityLimit(config: BroilerConfig): string {
+  return config.densityLimitKgPerM2 == null
+    ? "None"
+    : `${formatNumber(config.densityLimitKgPerM2)} kg/m²`;
+}
@@ -0,0 +1,180 @@
+import * as XLSX from "xlsx";
+
+// Evaluates the cells of an exported workbook for tests, covering the Excel
+// subset the export writes: arithmetic, "=" comparisons, cell references
+// (optionally sheet-qualified and absolute) and IF, N, NA, ROUNDUP and
+// ROUNDDOWN. A cell whose formula fails (#N/A, #DIV/0!) reads as null, the
+// way the app leaves an output blank.
+
+type Value = number | string | boolean | null;
+
+type Node =
+  | { kind: "value"; value: Value }
+  | { kind: "ref"; sheet: string | null; address: string }
+  | { kind: "call"; name: string; args: Node[] }
+  | { kind: "unary"; operand: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node };
+
+class FormulaError extends Error {}
+
+// One capture group per token kind, in the order tokenize returns them
+const TOKEN = new RegExp(
+  `\\s*(?:${[
+    String.raw`(\d+(?:\.\d+)?(?:E[-+]?\d+)?)`, // number
+    String.raw`"((?:[^"]|"")*)"`, // string
+    String.raw`((?:[A-Za-z_][\w.]*!)?\$?[A-Z]+\$?\d+)(?![\w(])`, // cell reference
+    String.raw`([A-Za-z_][\w.]*)`, // function name or TRUE/FALSE
+    String.raw`(<>|[-+*/=(),])` // operator
+  ].join("|")})`,
+  "y"
+);
+
+function tokenize(formula: string): string[][] {
+  const tokens: string[][] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < formula.length) {
+    const match = TOKEN.exec(formula);
+    if (!match) throw new Error(`Cannot read formula: ${formula}`);
+    tokens.push(match.slice(1, 6));
+  }
+  return tokens;
+}
+
+function parse(formula: string): Node {
+  const tokens = tokenize(formula);
+  let at = 0;
+  const peek = (): string | undefined => tokens[at]?.[4];
+  const expect = (op: string) => {
+    if (peek() !== op) throw new Error(`Expected "${op}" in ${formula}`);
+    at += 1;
+  };
+
+  const primary = (): Node => {
+    const [number, text, ref, name, op] = tokens[at++] ?? [];
+    if (number != null) return { kind: "value", value: Number(number) };
+    if (text != null) return { kind: "value", value: text.replace(/""/g, '"') };
+    if (ref != null) {
+      const [sheet, address] = ref.includes("!") ? ref.split("!") : [null, ref];
+      return { kind: "ref", sheet, address: address.replace(/\$/g, "") };
+    }
+    if (name === "TRUE" || name === "FALSE") return { kind: "value", value: name === "TRUE" };
+    if (name != null) {
+      expect("(");
+      const args: Node[] = [];
+      while (peek() !== ")") {
+        args.push(comparison());
+        if (peek() === ",") at += 1;
+      }
+      expect(")");
+      return { kind: "call", name: name.toUpperCase(), args };
+    }
+    if (op === "(") {
+      const inner = comparison();
+      expect(")");
+      return inner;
+    }
+    if (op === "-") return { kind: "unary", operand: primary() };
+    throw new Error(`Unexpected token in ${formula}`);
+  };
+  const binary = (next: () => Node, ops: string[]) => (): Node => {
+    let left = next();
+    while (ops.includes(peek() ?? "")) {
+      const op = tokens[at++][4];
+      left = { kind: "binary", op, left, right: next() };
+    }
+    return left;
+  };
+  const term = binary(primary, ["*", "/"]);
+  const additive = binary(term, ["+", "-"]);
+  const comparison = binary(additive, ["=", "<>"]);
+
+  const node = comparison();
+  if (at !== tokens.length) throw new Error(`Unexpected tail in ${formula}`);
+  return node;
+}
+
+// Blank cells and booleans count as numbers in arithmetic, as in Excel
+function toNumber(value: Value): number {
+  if (typeof value === "number") return value;
+  if (value == null) return 0;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  throw new FormulaError("#VALUE!");
+}
+
+export function createWorkbookEvaluator(workbook: XLSX.WorkBook) {
+  const cache = new Map<string, Value | undefined>();
+
+  const evaluate = (node: Node, sheet: string): Value => {
+    switch (node.kind) {
+      case "value":
+        return node.value;
+      case "ref": {
+        const value = cellValue(node.sheet ?? sheet, node.address);
+        if (value === undefined) throw new FormulaError("#N/A");
+        return value;
+      }
+      case "unary":
+        return -toNumber(evaluate(node.operand, sheet));
+      case "binary": {
+        const left = evaluate(node.left, sheet);
+        const right = evaluate(node.right, sheet);
+        if (node.op === "=") return left === right;
+        if (node.op === "<>") return left !== right;
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (node.op === "+") return a + b;
+        if (node.op === "-") return a - b;
+        if (node.op === "*") return a * b;
+        if (b === 0) throw new FormulaError("#DIV/0!");
+        return a / b;
+      }
+      case "call": {
+        const [first, second, third] = node.args;
+        switch (node.name) {
+          case "IF":
+            return evaluate(first, sheet) ? evaluate(second, sheet) : evaluate(third, sheet);
+          case "N": {
+            const value = evaluate(first, sheet);
+            return typeof value === "number" ? value : 0;
+          }
+          case "NA":
+            throw new FormulaError("#N/A");
+          case "ROUNDUP":
+          case "ROUNDDOWN": {
+            // Both round away from or towards zero, whatever the sign
+            const value = toNumber(evaluate(first, sheet));
+            const factor = 10 ** toNumber(evaluate(second, sheet));
+            const scaled = Math.abs(value) * factor;
+            const rounded = node.name === "ROUNDUP" ? Math.ceil(scaled) : Math.floor(scaled);
+            return (Math.sign(value) * rounded) / factor;
+          }
+          default:
+            throw new Error(`Unsupported function ${node.name}`);
+        }
+      }
+    }
+  };
+
+  // null for a blank cell, undefined when its formula fails
+  function cellValue(sheet: string, address: string): Value | undefined {
+    const key = `${sheet}!${address}`;
+    if (cache.has(key)) return cache.get(key);
+    const cell = workbook.Sheets[sheet]?.[address] as XLSX.CellObject | undefined;
+    let value: Value | undefined;
+    if (cell?.f) {
+      try {
+        value = evaluate(parse(cell.f), sheet);
+      } catch (error) {
+        if (!(error instanceof FormulaError)) throw error;
+        value = undefined;
+      }
+    } else {
+      value = cell == null || cell.t === "z" ? null : (cell.v as Value);
+    }
+    cache.set(key, value);
+    return value;
+  }
+
+  // A cell's value, with failed formulas read as null
+  return (sheet: string, address: string): Value => cellValue(sheet, address) ?? null;
+}
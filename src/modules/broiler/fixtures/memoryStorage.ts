@@ -0,0 +1,23 @@
+import { vi } from "vitest";
+
+// Stands in for window.localStorage while a test runs outside the browser
+export function stubLocalStorage(initial: Record<string, unknown> = {}) {
+  const items = new Map<string, string>(
+    Object.entries(initial).map(([key, value]) => [key, JSON.stringify(value)])
+  );
+  const localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+  vi.stubGlobal("window", { localStorage });
+  // Parsed contents of one key, or null when it is not set
+  return (key: string): unknown => {
+    const raw = items.get(key);
+    return raw == null ? null : JSON.parse(raw);
+  };
+}
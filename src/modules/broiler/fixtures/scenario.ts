@@ -0,0 +1,23 @@
+import type { BroilerConfig, BroilerInputs, BroilerScenario } from "../types";
+import golden from "./calculator-sheet1.json";
+
+export const sheetInputs = golden.inputs as BroilerInputs;
+export const sheetConfig = golden.config as BroilerConfig;
+
+// A saved scenario holding the Calculator.xlsx Sheet1 inputs; tests override
+// the fields they are about
+export function sheetScenario(overrides: Partial<BroilerScenario> = {}): BroilerScenario {
+  return {
+    id: "sheet1",
+    name: "Sheet1",
+    description: "",
+    timeHorizon: "year",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    inputs: sheetInputs,
+    config: sheetConfig,
+    revisions: [],
+    farms: [],
+    ...overrides
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { parseGrowthCurveCsv } from "./growth";
+
+describe("parseGrowthCurveCsv", () => {
+  it("skips one header line, comments and blank lines", () => {
+    const result = parseGrowthCurveCsv(
+      "# Integrator curve\nAge (days),Weight (g)\n\n0,42\n7,185\n14,486\n",
+      "Integrator",
+      "g"
+    );
+    expect(result.ok && result.curve.points).toEqual([
+      { ageDays: 0, weightKg: 0.042 },
+      { ageDays: 7, weightKg: 0.185 },
+      { ageDays: 14, weightKg: 0.486 }
+    ]);
+  });
+
+  it("reads a comma as the decimal mark with semicolons", () => {
+    const result = parseGrowthCurveCsv("age;kg\n0;0,042\n35;2,333", "Curve", "kg");
+    expect(result.ok && result.curve.points[1]).toEqual({ ageDays: 35, weightKg: 2.333 });
+  });
+
+  it("rejects a second line that is not a row", () => {
+    const result = parseGrowthCurveCsv("Breed curve\nAge,Weight\n0,42\n7,185", "Curve", "g");
+    expect(result).toEqual({ ok: false, reason: "Line 2 does not hold an age and a weight." });
+  });
+
+  it("rejects a line that is not a row after the first one", () => {
+    const result = parseGrowthCurveCsv("0,42\n7,185\nabout 14 days,486", "Curve", "g");
+    expect(result).toEqual({ ok: false, reason: "Line 3 does not hold an age and a weight." });
+  });
+});
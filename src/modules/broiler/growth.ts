@@ -0,0 +1,197 @@
+import type {
+  BroilerConfig,
+  BroilerInputs,
+  GrowthCurve,
+  GrowthPoint
+} from "./types";
+
+// Rounded from the published breed performance objectives (as-hatched, weekly
+// body weights). Close enough for capacity planning; upload the integrator's
+// own curve when the contract weights matter.
+const grams = (weights: number[]): GrowthPoint[] =>
+  weights.map((g, week) => ({ ageDays: week * 7, weightKg: g / 1000 }));
+
+export const growthCurvePresets: GrowthCurve[] = [
+  {
+    id: "ross-308",
+    name: "Ross 308 (as-hatched, approx.)",
+    points: grams([44, 209, 531, 1014, 1640, 2333, 3021, 3649, 4193])
+  },
+  {
+    id: "cobb-500",
+    name: "Cobb 500 (as-hatched, approx.)",
+    points: grams([42, 185, 486, 961, 1562, 2213, 2857, 3453, 3963])
+  },
+  {
+    id: "slow-growing",
+    name: "Slow-growing breed (approx.)",
+    points: grams([40, 130, 320, 600, 950, 1350, 1780, 2200, 2600, 2950])
+  }
+];
+
+export const MAX_GROWTH_POINTS = 500;
+
+// Why a list of points cannot be used as a curve, or null when it can
+export function checkGrowthPoints(points: GrowthPoint[]): string | null {
+  if (points.length < 2) return "A growth curve needs at least two points.";
+  if (points.length > MAX_GROWTH_POINTS) {
+    return `A growth curve can have at most ${MAX_GROWTH_POINTS} points.`;
+  }
+  for (let i = 0; i < points.length; i += 1) {
+    const { ageDays, weightKg } = points[i];
+    if (!Number.isFinite(ageDays) || ageDays < 0) {
+      return "Ages must be zero or more days.";
+    }
+    if (!Number.isFinite(weightKg) || weightKg <= 0) {
+      return "Weights must be greater than zero.";
+    }
+    if (i > 0 && ageDays <= points[i - 1].ageDays) {
+      return "Ages must increase from one point to the next.";
+    }
+    if (i > 0 && weightKg <= points[i - 1].weightKg) {
+      return "Weights must increase with age.";
+    }
+  }
+  return null;
+}
+
+// Straight-line interpolation between the two points around `value`; null
+// outside the curve, which is never extrapolated.
+function interpolate(
+  points: GrowthPoint[],
+  value: number,
+  from: keyof GrowthPoint,
+  to: keyof GrowthPoint
+): number | null {
+  if (!Number.isFinite(value)) return null;
+  for (let i = 1; i < points.length; i += 1) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (value >= a[from] && value <= b[from]) {
+      const t = (value - a[from]) / (b[from] - a[from]);
+      return a[to] + t * (b[to] - a[to]);
+    }
+  }
+  return null;
+}
+
+export const weightAtAge = (curve: GrowthCurve, ageDays: number) =>
+  interpolate(curve.points, ageDays, "ageDays", "weightKg");
+
+export const ageAtWeight = (curve: GrowthCurve, weightKg: number) =>
+  interpolate(curve.points, weightKg, "weightKg", "ageDays");
+
+// The curve only links SN2 with the grow-out age, so it needs the cycle time
+// broken down
+export const growthLinkActive = (config: BroilerConfig) =>
+  config.growthCurve != null && config.composeCycleTime;
+
+// The input the curve fills in, or null when no curve is linked
+export function derivedGrowthInput(config: BroilerConfig): keyof BroilerInputs | null {
+  if (!growthLinkActive(config)) return null;
+  return config.growthDerive === "age" ? "growOutDays" : "sn2HarvestBirdAvgWeight";
+}
+
+// The input the derived one is read from
+export const growthSourceInput = (config: BroilerConfig): keyof BroilerInputs =>
+  config.growthDerive === "age" ? "sn2HarvestBirdAvgWeight" : "growOutDays";
+
+export function describeGrowthLink(config: BroilerConfig): string {
+  const curve = config.growthCurve;
+  if (!curve) return "None";
+  if (!config.composeCycleTime) return `${curve.name}, unused while SN6 is entered whole`;
+  return config.growthDerive === "age"
+    ? `${curve.name}, grow-out age from SN2`
+    : `${curve.name}, SN2 from grow-out age`;
+}
+
+export interface GrowthResolution {
+  // The inputs with the derived one replaced by its value on the curve
+  inputs: BroilerInputs;
+  point: GrowthPoint | null;
+  // The source input is entered but lies beyond the ends of the curve
+  outOfRange: boolean;
+}
+
+/**
+ * Fills in the grow-out age from SN2, or SN2 from the grow-out age, by reading
+ * the linked growth curve. The derived input is left empty while its source is
+ * empty or off the curve. Inputs are returned as they are when no curve is
+ * linked.
+ */
+export function applyGrowthCurve(
+  inputs: BroilerInputs,
+  config: BroilerConfig
+): GrowthResolution {
+  const curve = config.growthCurve;
+  const derived = derivedGrowthInput(config);
+  if (!curve || !derived) return { inputs, point: null, outOfRange: false };
+
+  const source = inputs[growthSourceInput(config)];
+  let point: GrowthPoint | null = null;
+  if (source != null) {
+    const value =
+      config.growthDerive === "age" ? ageAtWeight(curve, source) : weightAtAge(curve, source);
+    if (value != null) {
+      point =
+        config.growthDerive === "age"
+          ? { ageDays: value, weightKg: source }
+          : { ageDays: source, weightKg: value };
+    }
+  }
+  const resolved = { ...inputs };
+  resolved[derived] =
+    point == null ? null : derived === "growOutDays" ? point.ageDays : point.weightKg;
+  return { inputs: resolved, point, outOfRange: source != null && point == null };
+}
+
+export type GrowthWeightUnit = "g" | "kg";
+
+export type GrowthCurveParseResult =
+  | { ok: true; curve: GrowthCurve }
+  | { ok: false; reason: string };
+
+/**
+ * Reads an uploaded curve: one "age, weight" row per line, ages in days.
+ * Rows may be separated by commas, semicolons or tabs; with semicolons or tabs
+ * a comma is read as the decimal mark. One header line before the first row
+ * is skipped, as are blank lines and lines starting with "#". Only the first
+ * two columns are used.
+ */
+export function parseGrowthCurveCsv(
+  text: string,
+  name: string,
+  unit: GrowthWeightUnit
+): GrowthCurveParseResult {
+  const points: GrowthPoint[] = [];
+  let header = false;
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (line === "" || line.startsWith("#")) continue;
+    const semicolons = /[;\t]/.test(line);
+    const cells = line
+      .split(semicolons ? /[;\t]/ : ",")
+      .map((cell) => cell.trim().replace(/^"|"$/g, ""))
+      .map((cell) => (semicolons ? cell.replace(",", ".") : cell));
+    const [age, weight] = cells.map((cell) => (cell === "" ? NaN : Number(cell)));
+    if (!Number.isFinite(age) || !Number.isFinite(weight)) {
+      if (points.length === 0 && !header) {
+        header = true;
+        continue;
+      }
+      return {
+        ok: false,
+        reason: `Line ${index + 1} does not hold an age and a weight.`
+      };
+    }
+    points.push({ ageDays: age, weightKg: unit === "g" ? weight / 1000 : weight });
+  }
+
+  const problem = checkGrowthPoints(points);
+  if (problem) return { ok: false, reason: problem };
+  return {
+    ok: true,
+    curve: { id: crypto.randomUUID(), name: name.trim() || "Uploaded curve", points }
+  };
+}
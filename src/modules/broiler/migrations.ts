@@ -0,0 +1,160 @@
+import type { BroilerScenario } from "./types";
+import { fieldErrorMessages, parseScenario } from "./validation";
+
+// Version of the records written by this build. Bump it together with a new
+// entry in `migrations` whenever BroilerScenario, BroilerInputs or
+// BroilerConfig change shape.
+//
+// 1: bare array of scenarios under the storage key (no version field)
+// 2: { version, scenarios } envelope; every input key present, null if empty
+// 3: updatedAt on every scenario
+// 4: revision history, seeded with the saved assumptions
+// 5: stocking density limit in config, off unless chosen
+// 6: farm portfolio, empty
+// 7: cycle time parts (grow-out, cleanout, downtime), SN6 still entered whole
+// 8: growth curve in config, none linked
+export const CURRENT_SCHEMA_VERSION = 8;
+
+type StoredRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Each migration upgrades one record from version `n` to `n + 1`. They may
+// fill in defaults but must not guess at values that were never entered.
+const migrations: Record<number, (record: StoredRecord) => StoredRecord> = {
+  1: (record) => {
+    const inputs = isRecord(record.inputs) ? record.inputs : {};
+    const config = isRecord(record.config) ? record.config : {};
+    return {
+      ...record,
+      timeHorizon: record.timeHorizon ?? "year",
+      inputs: {
+        sn1TargetBroilerMeat: null,
+        sn2HarvestBirdAvgWeight: null,
+        sn4PlannedMortality: null,
+        sn6CycleTimeDays: null,
+        sn10FarmCapacity: null,
+        sn11NumberOfHouses: null,
+        sn12HouseArea: null,
+        yieldPercent: null,
+        ...inputs
+      },
+      config: {
+        unitsMode: "tonsPerYear_kgPerBird",
+        useYield: false,
+        useFullCyclesOnly: false,
+        useLeapYearCycles: false,
+        mortalityAsPercent: true,
+        ...config
+      }
+    };
+  },
+  2: (record) => ({
+    ...record,
+    updatedAt: record.updatedAt ?? record.createdAt
+  }),
+  3: (record) => ({
+    ...record,
+    revisions: [
+      {
+        id: `${String(record.id)}-initial`,
+        savedAt: record.updatedAt,
+        note: "Saved before revision history was kept",
+        timeHorizon: record.timeHorizon,
+        customDays: record.customDays,
+        inputs: record.inputs,
+        config: record.config
+      }
+    ]
+  }),
+  4: (record) => {
+    const withLimit = (config: unknown) =>
+      isRecord(config) ? { densityLimitKgPerM2: null, ...config } : config;
+    return {
+      ...record,
+      config: withLimit(record.config),
+      revisions: Array.isArray(record.revisions)
+        ? record.revisions.map((revision) =>
+            isRecord(revision) ? { ...revision, config: withLimit(revision.config) } : revision
+          )
+        : record.revisions
+    };
+  },
+  5: (record) => ({
+    ...record,
+    farms: record.farms ?? []
+  }),
+  6: (record) => {
+    const withCycleParts = (assumptions: StoredRecord): StoredRecord => ({
+      ...assumptions,
+      inputs: isRecord(assumptions.inputs)
+        ? { growOutDays: null, cleanoutDays: null, downtimeDays: null, ...assumptions.inputs }
+        : assumptions.inputs,
+      config: isRecord(assumptions.config)
+        ? { composeCycleTime: false, ...assumptions.config }
+        : assumptions.config
+    });
+    return {
+      ...withCycleParts(record),
+      revisions: Array.isArray(record.revisions)
+        ? record.revisions.map((revision) =>
+            isRecord(revision) ? withCycleParts(revision) : revision
+          )
+        : record.revisions
+    };
+  },
+  7: (record) => {
+    const withCurve = (config: unknown) =>
+      isRecord(config) ? { growthCurve: null, growthDerive: "age", ...config } : config;
+    return {
+      ...record,
+      config: withCurve(record.config),
+      revisions: Array.isArray(record.revisions)
+        ? record.revisions.map((revision) =>
+            isRecord(revision) ? { ...revision, config: withCurve(revision.config) } : revision
+          )
+        : record.revisions
+    };
+  }
+};
+
+export type MigrationResult =
+  | { ok: true; scenario: BroilerScenario }
+  | { ok: false; reason: string };
+
+export function migrateRecord(raw: unknown, fromVersion: number): MigrationResult {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      reason: `Saved by a newer version of the app (schema v${fromVersion}).`
+    };
+  }
+  if (!isRecord(raw)) {
+    return { ok: false, reason: "Record is not an object." };
+  }
+
+  let record = raw;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version += 1) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return { ok: false, reason: `No migration from schema v${version}.` };
+    }
+    try {
+      record = migrate(record);
+    } catch (error) {
+      return {
+        ok: false,
+        reason: `Migration from schema v${version} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      };
+    }
+  }
+
+  const { scenario, errors } = parseScenario(record);
+  if (!scenario) {
+    return { ok: false, reason: fieldErrorMessages(errors).join(" ") };
+  }
+  return { ok: true, scenario };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { computeBroilerResults } from "./calculations";
+import { sheetConfig, sheetInputs } from "./fixtures/scenario";
+import { createRandom, runMonteCarlo, sampleDistribution } from "./monteCarlo";
+import type { InputDistribution, MonteCarloOptions } from "./monteCarlo";
+import type { BroilerInputs } from "./types";
+
+const inputs = sheetInputs;
+const config = sheetConfig;
+
+const options: MonteCarloOptions = {
+  inputs,
+  config,
+  horizon: { timeHorizon: "year" },
+  distributions: {
+    sn2HarvestBirdAvgWeight: { kind: "triangular", min: 1.6, mode: 1.8, max: 2.1 },
+    sn4PlannedMortality: { kind: "normal", mean: 8, stdDev: 2, min: 3, max: 15 },
+    sn6CycleTimeDays: { kind: "uniform", min: 55, max: 65 }
+  },
+  iterations: 2000,
+  seed: 42,
+  availableFarms: 14
+};
+
+describe("runMonteCarlo", () => {
+  it("gives the same result for the same seed", () => {
+    expect(runMonteCarlo(options)).toEqual(runMonteCarlo(options));
+  });
+
+  it("does not depend on the key order of the inputs", () => {
+    const reversed = Object.fromEntries(Object.entries(inputs).reverse()) as BroilerInputs;
+    expect(runMonteCarlo({ ...options, inputs: reversed })).toEqual(runMonteCarlo(options));
+  });
+
+  it("gives a different result for another seed", () => {
+    const a = runMonteCarlo(options).summaries.sn14NumberOfFarms;
+    const b = runMonteCarlo({ ...options, seed: 43 }).summaries.sn14NumberOfFarms;
+    expect(a?.mean).not.toBe(b?.mean);
+  });
+
+  it("matches the deterministic model when every input is fixed", () => {
+    const result = runMonteCarlo({ ...options, distributions: {}, iterations: 10 });
+    const farms = computeBroilerResults(inputs, config).sn14NumberOfFarms as number;
+    const summary = result.summaries.sn14NumberOfFarms;
+    expect(summary).toMatchObject({ count: 10, min: farms, max: farms, p50: farms });
+    expect(result.failedRuns).toBe(0);
+    expect(result.probabilityExceedsFarms).toBe(1);
+    expect(result.histogram).toEqual([{ from: farms, to: farms, count: 10 }]);
+  });
+
+  it("orders percentiles and counts every run in the histogram", () => {
+    const result = runMonteCarlo(options);
+    const summary = result.summaries.sn14NumberOfFarms;
+    expect(summary).toBeDefined();
+    const { min, p10, p50, p90, max } = summary!;
+    expect(min).toBeLessThanOrEqual(p10);
+    expect(p10).toBeLessThanOrEqual(p50);
+    expect(p50).toBeLessThanOrEqual(p90);
+    expect(p90).toBeLessThanOrEqual(max);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(
+      result.iterations - result.failedRuns
+    );
+    expect(result.probabilityExceedsFarms).toBeGreaterThan(0);
+    expect(result.probabilityExceedsFarms).toBeLessThan(1);
+  });
+
+  it("counts runs that sample an invalid mortality as failed", () => {
+    const result = runMonteCarlo({
+      ...options,
+      distributions: { sn4PlannedMortality: { kind: "uniform", min: 50, max: 150 } }
+    });
+    expect(result.failedRuns).toBeGreaterThan(0);
+    expect(result.failedRuns).toBeLessThan(result.iterations);
+  });
+});
+
+describe("sampleDistribution", () => {
+  const distributions: InputDistribution[] = [
+    { kind: "uniform", min: 2, max: 5 },
+    { kind: "triangular", min: 2, mode: 2.5, max: 5 },
+    { kind: "normal", mean: 3, stdDev: 4, min: 2, max: 5 }
+  ];
+
+  it.each(distributions)("keeps $kind samples within their bounds", (distribution) => {
+    const random = createRandom(7);
+    for (let i = 0; i < 1000; i += 1) {
+      const value = sampleDistribution(distribution, null, random) as number;
+      expect(value).toBeGreaterThanOrEqual(2);
+      expect(value).toBeLessThanOrEqual(5);
+    }
+  });
+
+  it("returns the entered value for a fixed input", () => {
+    expect(sampleDistribution({ kind: "fixed" }, 1.8, createRandom(1))).toBe(1.8);
+  });
+});
@@ -0,0 +1,234 @@
+import { computeBroilerResults } from "./calculations";
+import type { BroilerOutputKey } from "./calculations";
+import type {
+  BroilerConfig,
+  BroilerHorizon,
+  BroilerInputs
+} from "./types";
+
+export type InputDistribution =
+  | { kind: "fixed" }
+  | { kind: "uniform"; min: number; max: number }
+  | { kind: "triangular"; min: number; mode: number; max: number }
+  | { kind: "normal"; mean: number; stdDev: number; min: number; max: number };
+
+export type InputDistributions = Partial<
+  Record<keyof BroilerInputs, InputDistribution>
+>;
+
+export interface MonteCarloOptions {
+  inputs: BroilerInputs;
+  config: BroilerConfig;
+  horizon: BroilerHorizon;
+  distributions: InputDistributions;
+  iterations: number;
+  seed: number;
+  // Farms actually available, compared against SN14 in each run
+  availableFarms?: number | null;
+  histogramOutput?: BroilerOutputKey;
+  histogramBins?: number;
+}
+
+export interface OutputSummary {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  // Runs where SN14 could not be calculated (e.g. sampled mortality >= 100%)
+  failedRuns: number;
+  summaries: Partial<Record<BroilerOutputKey, OutputSummary>>;
+  histogram: HistogramBin[];
+  probabilityExceedsFarms: number | null;
+}
+
+// Fixed draw order so a seed always maps to the same sequence of samples,
+// whatever the key order of the stored inputs object
+const sampledInputs: (keyof BroilerInputs)[] = [
+  "sn1TargetBroilerMeat",
+  "sn2HarvestBirdAvgWeight",
+  "sn4PlannedMortality",
+  "sn6CycleTimeDays",
+  "sn10FarmCapacity",
+  "sn11NumberOfHouses",
+  "sn12HouseArea",
+  "yieldPercent",
+  "growOutDays",
+  "cleanoutDays",
+  "downtimeDays"
+];
+
+const summarizedOutputs: BroilerOutputKey[] = [
+  "sn3HarvestBirdsNumber",
+  "sn5OverallPlacement",
+  "sn7CyclesPerYear",
+  "sn8HarvestPerCycle",
+  "sn9PlacementPerCycle",
+  "sn13Density",
+  "sn13DensityKgPerM2",
+  "sn14NumberOfFarms"
+];
+
+// mulberry32: small, fast and good enough for planning simulations. The same
+// seed always produces the same sequence.
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const MAX_NORMAL_REDRAWS = 100;
+
+export function sampleDistribution(
+  distribution: InputDistribution,
+  fixedValue: number | null,
+  random: () => number
+): number | null {
+  switch (distribution.kind) {
+    case "fixed":
+      return fixedValue;
+    case "uniform":
+      return distribution.min + (distribution.max - distribution.min) * random();
+    case "triangular": {
+      const { min, mode, max } = distribution;
+      if (max <= min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case "normal": {
+      // Truncated normal: redraw until the value falls within the bounds
+      const { mean, stdDev, min, max } = distribution;
+      for (let i = 0; i < MAX_NORMAL_REDRAWS; i += 1) {
+        const u1 = 1 - random();
+        const u2 = random();
+        const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+        const value = mean + stdDev * z;
+        if (value >= min && value <= max) return value;
+      }
+      return Math.min(max, Math.max(min, mean));
+    }
+    default:
+      return fixedValue;
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function summarize(values: number[]): OutputSummary | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9)
+  };
+}
+
+export function buildHistogram(values: number[], bins: number): HistogramBin[] {
+  if (values.length === 0 || bins <= 0) return [];
+  const min = values.reduce((m, v) => Math.min(m, v), Infinity);
+  const max = values.reduce((m, v) => Math.max(m, v), -Infinity);
+  if (min === max) return [{ from: min, to: max, count: values.length }];
+  const width = (max - min) / bins;
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0
+  }));
+  values.forEach((v) => {
+    const index = Math.min(bins - 1, Math.floor((v - min) / width));
+    result[index].count += 1;
+  });
+  return result;
+}
+
+export function runMonteCarlo(options: MonteCarloOptions): MonteCarloResult {
+  const {
+    inputs,
+    config,
+    horizon,
+    distributions,
+    seed,
+    availableFarms,
+    histogramOutput = "sn14NumberOfFarms",
+    histogramBins = 20
+  } = options;
+  const iterations = Math.max(0, Math.floor(options.iterations));
+  const random = createRandom(seed);
+  const collected: Record<string, number[]> = {};
+  summarizedOutputs.forEach((key) => {
+    collected[key] = [];
+  });
+  let failedRuns = 0;
+  let exceedCount = 0;
+
+  for (let run = 0; run < iterations; run += 1) {
+    const sampled = { ...inputs };
+    sampledInputs.forEach((key) => {
+      const distribution = distributions[key];
+      if (distribution && distribution.kind !== "fixed") {
+        sampled[key] = sampleDistribution(distribution, inputs[key], random);
+      }
+    });
+    const results = computeBroilerResults(sampled, config, horizon);
+    summarizedOutputs.forEach((key) => {
+      const value = results[key];
+      if (value != null && Number.isFinite(value)) {
+        collected[key].push(value);
+      }
+    });
+    const farms = results.sn14NumberOfFarms;
+    if (farms == null || !Number.isFinite(farms)) {
+      failedRuns += 1;
+    } else if (availableFarms != null && farms > availableFarms) {
+      exceedCount += 1;
+    }
+  }
+
+  const summaries: Partial<Record<BroilerOutputKey, OutputSummary>> = {};
+  summarizedOutputs.forEach((key) => {
+    summaries[key] = summarize(collected[key]);
+  });
+  const successfulRuns = iterations - failedRuns;
+
+  return {
+    iterations,
+    failedRuns,
+    summaries,
+    histogram: buildHistogram(collected[histogramOutput] ?? [], histogramBins),
+    probabilityExceedsFarms:
+      availableFarms != null && successfulRuns > 0
+        ? exceedCount / successfulRuns
+        : null
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseLocaleNumber } from "./numberLocale";
+
+describe("parseLocaleNumber", () => {
+  it.each([
+    ["1.234,5", "de-DE", 1234.5],
+    ["12.345,6", "de-DE", 12345.6],
+    ["1.234.567", "de-DE", 1234567],
+    ["1,8", "de-DE", 1.8],
+    ["1,234.5", "en-US", 1234.5],
+    ["1.8", "en-US", 1.8],
+    ["1 234,5", "fr-FR", 1234.5],
+    ["1 234,5", "fr-FR", 1234.5],
+    ["1’234.5", "de-CH", 1234.5],
+    ["-12,5", "de-DE", -12.5],
+    ["2e3", "en-US", 2000]
+  ])("reads %s in %s", (text, locale, expected) => {
+    expect(parseLocaleNumber(text, locale)).toBe(expected);
+  });
+
+  // Misplaced separators are errors rather than dropped, which would misread by 10x or more
+  it.each([
+    ["1.8", "de-DE"],
+    ["1,8", "en-US"],
+    ["1.23", "de-DE"],
+    ["1.2345", "de-DE"],
+    ["1234.567,8", "de-DE"],
+    ["1,234.5,6", "en-US"],
+    ["1,23,456", "en-US"],
+    ["1 8", "en-US"],
+    ["12,3.5", "en-US"],
+    ["1,234,5", "de-DE"],
+    ["abc", "en-US"]
+  ])("rejects %s in %s", (text, locale) => {
+    expect(parseLocaleNumber(text, locale)).toBeNaN();
+  });
+
+  it("reads an empty field as no value", () => {
+    expect(parseLocaleNumber("  ", "de-DE")).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { useCallback, useState } from "react";
+
+export const NUMBER_LOCALE_KEY = "broiler-number-locale";
+
+// "auto" follows the browser's language
+export const numberLocaleOptions: { value: string; label: string }[] = [
+  { value: "auto", label: "Browser default" },
+  { value: "en-US", label: "1,234.5 (English, US)" },
+  { value: "en-GB", label: "1,234.5 (English, UK)" },
+  { value: "de-DE", label: "1.234,5 (German)" },
+  { value: "fr-FR", label: "1 234,5 (French)" },
+  { value: "es-ES", label: "1.234,5 (Spanish)" },
+  { value: "id-ID", label: "1.234,5 (Indonesian)" },
+  { value: "de-CH", label: "1’234.5 (Swiss German)" }
+];
+
+export function resolveNumberLocale(setting: string): string {
+  if (setting !== "auto") return setting;
+  return (typeof navigator !== "undefined" && navigator.language) || "en-US";
+}
+
+export function loadNumberLocale(): string {
+  try {
+    return window.localStorage.getItem(NUMBER_LOCALE_KEY) ?? "auto";
+  } catch {
+    return "auto";
+  }
+}
+
+// formatNumber and parseLocaleNumber read this so that every call site
+// follows the setting without passing the locale around.
+let activeLocale = resolveNumberLocale(
+  typeof window === "undefined" ? "en-US" : loadNumberLocale()
+);
+
+export function activeNumberLocale(): string {
+  return activeLocale;
+}
+
+function separators(locale: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((p) => p.type === "group")?.value ?? ",",
+    decimal: parts.find((p) => p.type === "decimal")?.value ?? "."
+  };
+}
+
+/**
+ * Reads a number typed in the given locale, e.g. "1.234,5" in de-DE.
+ * Returns null for an empty field and NaN for text that is not a number.
+ * Group separators must sit between runs of exactly three digits before the
+ * decimal separator, so "1.8" in de-DE or "1,8" in en-US is an error rather
+ * than 18.
+ */
+export function parseLocaleNumber(
+  text: string,
+  locale: string = activeLocale
+): number | null {
+  const { group, decimal } = separators(locale);
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+
+  // Whitespace is accepted as grouping everywhere; locales that group with a
+  // space format numbers with a non-breaking one.
+  const isGroup = (ch: string) => /\s/.test(ch) || (group.trim() !== "" && ch === group);
+  const decimalAt = trimmed.indexOf(decimal);
+  const whole = decimalAt === -1 ? trimmed : trimmed.slice(0, decimalAt);
+  const fraction = decimalAt === -1 ? "" : trimmed.slice(decimalAt + 1);
+  if (Array.from(fraction).some(isGroup)) return NaN;
+
+  const groups = Array.from(whole).reduce<string[]>(
+    (parts, ch) => {
+      if (isGroup(ch)) parts.push("");
+      else parts[parts.length - 1] += ch;
+      return parts;
+    },
+    [""]
+  );
+  if (
+    groups.length > 1 &&
+    !(/^[-+]?\d{1,3}$/.test(groups[0]) && groups.slice(1).every((g) => /^\d{3}$/.test(g)))
+  ) {
+    return NaN;
+  }
+  const normalised = decimalAt === -1 ? groups.join("") : `${groups.join("")}.${fraction}`;
+  return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalised)
+    ? Number(normalised)
+    : NaN;
+}
+
+// Number format preference for this device. Changing it re-renders the
+// calling component, which re-formats everything below it.
+export function useNumberLocale(): [string, (setting: string) => void] {
+  const [setting, setSetting] = useState(loadNumberLocale);
+
+  const update = useCallback((next: string) => {
+    activeLocale = resolveNumberLocale(next);
+    try {
+      window.localStorage.setItem(NUMBER_LOCALE_KEY, next);
+    } catch {
+      // storage unavailable; the setting lasts until the page is reloaded
+    }
+    setSetting(next);
+  }, []);
+
+  return [setting, update];
+}
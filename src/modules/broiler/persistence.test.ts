@@ -0,0 +1,80 @@
+import { describe, expect, inject, it } from "vitest";
+import { sheetScenario } from "./fixtures/scenario";
+import {
+  ConflictError,
+  DeletedError,
+  OfflineError,
+  createHttpBackend
+} from "./persistence";
+const scenario = (id: string, updatedAt: string) =>
+  sheetScenario({ id, name: `Plan ${id}`, updatedAt });
+
+const JAN = "2024-01-01T00:00:00.000Z";
+const FEB = "2024-02-01T00:00:00.000Z";
+const MAR = "2024-03-01T00:00:00.000Z";
+
+declare module "vitest" {
+  // Set by scripts/mock-api-setup.ts
+  export interface ProvidedContext {
+    mockApiUrl: string;
+  }
+}
+
+// The HTTP backend against scripts/mock-scenario-api.mjs
+describe("createHttpBackend", () => {
+  const backend = createHttpBackend(`${inject("mockApiUrl")}/`);
+
+  it("saves, lists and deletes scenarios", async () => {
+    const saved = await backend.save(scenario("a", JAN));
+    expect(saved).toEqual({ ...scenario("a", JAN), description: "" });
+    expect((await backend.list()).map((s) => s.id)).toEqual(["a"]);
+
+    await backend.remove("a", FEB);
+    expect(await backend.list()).toEqual([]);
+    expect(await backend.deletions()).toEqual([{ id: "a", deletedAt: FEB }]);
+  });
+
+  it("rejects an older copy with the server's newer one", async () => {
+    await backend.save(scenario("b", FEB));
+    const error = await backend.save(scenario("b", JAN)).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).current.updatedAt).toBe(FEB);
+  });
+
+  it("refuses to delete a copy changed after the deletion", async () => {
+    await backend.save(scenario("c", MAR));
+    await expect(backend.remove("c", FEB)).rejects.toBeInstanceOf(ConflictError);
+    expect((await backend.list()).some((s) => s.id === "c")).toBe(true);
+  });
+
+  it("refuses to bring back a scenario deleted after it was saved", async () => {
+    await backend.save(scenario("d", JAN));
+    await backend.remove("d", FEB);
+    const error = await backend.save(scenario("d", JAN)).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DeletedError);
+    expect((error as DeletedError).deletion).toEqual({ id: "d", deletedAt: FEB });
+
+    // A change made after the deletion is kept
+    await backend.save(scenario("d", MAR));
+    expect((await backend.deletions()).some((d) => d.id === "d")).toBe(false);
+  });
+
+  it("skips records on the server that do not validate", async () => {
+    await backend.save({ ...scenario("e", JAN), name: "" });
+    expect((await backend.list()).some((s) => s.id === "e")).toBe(false);
+  });
+
+  it("only treats a 404 as an answer for deletes and deletion markers", async () => {
+    // Every path under /gone is missing on the mock server
+    const missing = createHttpBackend(`${inject("mockApiUrl")}/gone`);
+    await expect(missing.save(scenario("f", JAN))).rejects.toThrow("404");
+    await expect(missing.list()).rejects.toThrow("404");
+    await expect(missing.remove("f", FEB)).resolves.toBeUndefined();
+    await expect(missing.deletions()).resolves.toEqual([]);
+  });
+
+  it("reports an unreachable server as offline", async () => {
+    const closed = createHttpBackend("http://localhost:1");
+    await expect(closed.list()).rejects.toBeInstanceOf(OfflineError);
+  });
+});
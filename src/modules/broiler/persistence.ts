@@ -0,0 +1,176 @@
+import type { BroilerScenario } from "./types";
+import { CURRENT_SCHEMA_VERSION, migrateRecord } from "./migrations";
+import { deleteScenario, loadScenarios, upsertScenario } from "./storage";
+
+// Where saved scenarios live. The localStorage backend is always used as the
+// on-device copy; a remote backend, when configured, is kept in sync with it.
+export interface ScenarioBackend {
+  list(): Promise<BroilerScenario[]>;
+  // Resolves with the stored copy; rejects with ConflictError when the
+  // backend already holds a newer copy of the same id.
+  save(scenario: BroilerScenario): Promise<BroilerScenario>;
+  // Rejects with ConflictError when the backend holds a copy changed after
+  // `deletedAt`
+  remove(id: string, deletedAt: string): Promise<void>;
+  // Scenarios deleted on the backend, so copies elsewhere can be dropped
+  // rather than uploaded again
+  deletions(): Promise<ScenarioDeletion[]>;
+}
+
+export interface ScenarioDeletion {
+  id: string;
+  deletedAt: string;
+}
+
+export class ConflictError extends Error {
+  constructor(public readonly current: BroilerScenario) {
+    super(`A newer copy of "${current.name}" already exists.`);
+    this.name = "ConflictError";
+  }
+}
+
+// The backend deleted the scenario after this copy was last changed.
+export class DeletedError extends Error {
+  constructor(public readonly deletion: ScenarioDeletion) {
+    super("The scenario was deleted on the server.");
+    this.name = "DeletedError";
+  }
+}
+
+// The backend could not be reached; the write should be retried later.
+export class OfflineError extends Error {
+  constructor(message = "The scenario server cannot be reached.") {
+    super(message);
+    this.name = "OfflineError";
+  }
+}
+
+export function isNewer(a: BroilerScenario, b: BroilerScenario): boolean {
+  return Date.parse(a.updatedAt) > Date.parse(b.updatedAt);
+}
+
+export function createLocalBackend(): ScenarioBackend {
+  return {
+    list: async () => loadScenarios(),
+    save: async (scenario) => {
+      const existing = loadScenarios().find((s) => s.id === scenario.id);
+      if (existing && isNewer(existing, scenario)) throw new ConflictError(existing);
+      upsertScenario(scenario);
+      return scenario;
+    },
+    remove: async (id) => {
+      deleteScenario(id);
+    },
+    // Deleting here is sent on through the sync queue, so nothing is kept
+    deletions: async () => []
+  };
+}
+
+const isDeletion = (value: unknown): value is ScenarioDeletion =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ScenarioDeletion).id === "string" &&
+  !Number.isNaN(Date.parse((value as ScenarioDeletion).deletedAt));
+
+/**
+ * REST backend. Expects:
+ *   GET    {baseUrl}/scenarios      -> BroilerScenario[]
+ *   PUT    {baseUrl}/scenarios/:id  -> stored scenario, or 409 with the
+ *                                      server's newer copy, or 410 with
+ *                                      { id, deletedAt } when it was deleted
+ *                                      after this copy was changed
+ *   DELETE {baseUrl}/scenarios/:id?deletedAt=
+ *                                   -> 204 (404 is treated as deleted), or
+ *                                      409 with a copy changed since
+ *   GET    {baseUrl}/deletions      -> { id, deletedAt }[], or 404 when the
+ *                                      server keeps no deletion markers
+ * Any other 404 is a failure, so a write is never reported as synced when
+ * the server did not store it.
+ * `npm run mock-api` serves this contract for local development.
+ */
+export function createHttpBackend(
+  baseUrl: string,
+  fetchImpl: typeof fetch = (...args) => fetch(...args)
+): ScenarioBackend {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  // `allowMissing` lets a 404 through, for requests where a missing
+  // resource is an answer rather than a failure
+  const request = async (
+    path: string,
+    init?: RequestInit,
+    allowMissing = false
+  ): Promise<Response> => {
+    if (typeof navigator !== "undefined" && navigator.onLine === false) {
+      throw new OfflineError("You are offline.");
+    }
+    let response: Response;
+    try {
+      response = await fetchImpl(`${root}${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init?.headers }
+      });
+    } catch {
+      throw new OfflineError();
+    }
+    if (response.status === 409) {
+      const result = migrateRecord(await response.json(), CURRENT_SCHEMA_VERSION);
+      if (result.ok) throw new ConflictError(result.scenario);
+    }
+    if (response.status === 410) {
+      const deletion: unknown = await response.json();
+      if (isDeletion(deletion)) throw new DeletedError(deletion);
+    }
+    if (!response.ok && !(allowMissing && response.status === 404)) {
+      throw new Error(`Scenario server responded with ${response.status}.`);
+    }
+    return response;
+  };
+
+  return {
+    list: async () => {
+      const response = await request("/scenarios");
+      const records: unknown = await response.json();
+      if (!Array.isArray(records)) {
+        throw new Error("Scenario server returned an unexpected response.");
+      }
+      // Server data is untrusted; records that do not validate are skipped
+      return records.flatMap((record) => {
+        const result = migrateRecord(record, CURRENT_SCHEMA_VERSION);
+        return result.ok ? [result.scenario] : [];
+      });
+    },
+    save: async (scenario) => {
+      const response = await request(`/scenarios/${encodeURIComponent(scenario.id)}`, {
+        method: "PUT",
+        body: JSON.stringify(scenario)
+      });
+      const result = migrateRecord(await response.json(), CURRENT_SCHEMA_VERSION);
+      return result.ok ? result.scenario : scenario;
+    },
+    remove: async (id, deletedAt) => {
+      await request(
+        `/scenarios/${encodeURIComponent(id)}?${new URLSearchParams({ deletedAt })}`,
+        { method: "DELETE" },
+        true
+      );
+    },
+    deletions: async () => {
+      const response = await request("/deletions", undefined, true);
+      // A server without deletion markers answers 404
+      if (response.status === 404) return [];
+      const records: unknown = await response.json();
+      if (!Array.isArray(records)) {
+        throw new Error("Scenario server returned an unexpected response.");
+      }
+      return records.filter(isDeletion);
+    }
+  };
+}
+
+// Remote backend from the build environment, or null to keep scenarios on
+// this device only.
+export function configuredRemoteBackend(): ScenarioBackend | null {
+  const url: string | undefined = import.meta.env.VITE_SCENARIO_API_URL;
+  return url ? createHttpBackend(url) : null;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { computeBroilerResults } from "./calculations";
+import { sheetConfig, sheetInputs, sheetScenario } from "./fixtures/scenario";
+import { allocatePortfolio, createPortfolioFarm } from "./portfolio";
+import type { BroilerScenario, PortfolioFarm } from "./types";
+
+const withFarms = (farms: PortfolioFarm[], from: Partial<BroilerScenario> = {}) =>
+  sheetScenario({ ...from, farms });
+
+const allocate = (scenario: BroilerScenario) =>
+  allocatePortfolio(scenario, computeBroilerResults(scenario.inputs, scenario.config));
+
+// SN9 for the Sheet1 inputs
+const sn9 = computeBroilerResults(sheetInputs, sheetConfig).sn9PlacementPerCycle as number;
+
+describe("allocatePortfolio", () => {
+  it("spreads SN9 in proportion to capacity and the shares add up to it", () => {
+    // Capacities that do not divide SN9 evenly
+    const scenario = withFarms([
+      createPortfolioFarm("A", { capacity: 7_000_000 }),
+      createPortfolioFarm("B", { capacity: 3_000_001 }),
+      createPortfolioFarm("C", { capacity: 1_000_003, availabilityPercent: 30 })
+    ]);
+    const allocation = allocate(scenario);
+
+    const shares = allocation.farms.map((f) => f.allocated);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBeCloseTo(sn9, 6);
+    expect(allocation.allocated).toBe(sn9);
+    expect(allocation.shortfall).toBe(0);
+    expect(allocation.additionalStandardFarms).toBe(0);
+    // Every farm runs at the same share of its available capacity
+    const fill = allocation.farms.map((f) => f.allocated / (f.effectiveCapacity as number));
+    fill.forEach((value) => expect(value).toBeCloseTo(fill[0], 12));
+    expect(allocation.farms[2].effectiveCapacity).toBeCloseTo(300_000.9, 6);
+  });
+
+  it("places nothing on farms with a blank or zero capacity", () => {
+    const allocation = allocate(
+      withFarms([
+        createPortfolioFarm("Blank"),
+        createPortfolioFarm("Zero", { capacity: 0 }),
+        createPortfolioFarm("Full", { capacity: 10_000_000 })
+      ])
+    );
+
+    expect(allocation.farms.map((f) => f.effectiveCapacity)).toEqual([null, null, 10_000_000]);
+    expect(allocation.farms.map((f) => f.allocated)).toEqual([0, 0, sn9]);
+    expect(allocation.farms.map((f) => f.utilization)).toEqual([null, null, sn9 / 10_000_000]);
+  });
+
+  it("fills every farm and counts standard farms for the shortfall", () => {
+    const allocation = allocate(
+      withFarms([
+        createPortfolioFarm("A", { capacity: 3_000_000 }),
+        createPortfolioFarm("B", { capacity: 3_000_000, availabilityPercent: 50 })
+      ])
+    );
+
+    expect(allocation.farms.map((f) => f.allocated)).toEqual([3_000_000, 1_500_000]);
+    expect(allocation.farms.map((f) => f.utilization)).toEqual([1, 0.5]);
+    expect(allocation.totalCapacity).toBe(4_500_000);
+    expect(allocation.allocated).toBe(4_500_000);
+    expect(allocation.shortfall).toBeCloseTo(sn9 - 4_500_000, 6);
+    // SN10 is 350 000 birds/cycle
+    expect(allocation.additionalStandardFarms).toBe(Math.ceil((sn9 - 4_500_000) / 350_000));
+  });
+
+  it("treats a portfolio with no capacity as one big shortfall", () => {
+    const allocation = allocate(withFarms([createPortfolioFarm("Blank")]));
+
+    expect(allocation.allocated).toBe(0);
+    expect(allocation.shortfall).toBe(sn9);
+    expect(allocation.additionalStandardFarms).toBe(Math.ceil(sn9 / 350_000));
+  });
+
+  it("flags farms stocked above the density limit", () => {
+    const farm = createPortfolioFarm("Small houses", {
+      capacity: 10_000_000,
+      houses: 10,
+      houseArea: 2000
+    });
+    const allocation = allocate(
+      withFarms([farm], { config: { ...sheetConfig, densityLimitKgPerM2: 38 } })
+    );
+
+    // SN9 birds at 1.8 kg over 20 000 m²
+    expect(allocation.farms[0].densityKgPerM2).toBeCloseTo((sn9 * 1.8) / 20_000, 6);
+    expect(allocation.farms[0].overDensityLimit).toBe(true);
+  });
+
+  it("leaves the standard farm count blank when SN9 cannot be calculated", () => {
+    const allocation = allocate(
+      withFarms([createPortfolioFarm("A", { capacity: 1000 })], {
+        inputs: { ...sheetInputs, sn2HarvestBirdAvgWeight: null }
+      })
+    );
+
+    expect(allocation.demand).toBeNull();
+    expect(allocation.farms[0].allocated).toBe(0);
+    expect(allocation.additionalStandardFarms).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { applyGrowthCurve } from "./growth";
+import type { BroilerResults, BroilerScenario, PortfolioFarm } from "./types";
+
+export interface FarmAllocation {
+  farm: PortfolioFarm;
+  // Capacity after availability; null when the farm has no capacity yet
+  effectiveCapacity: number | null;
+  // Birds placed per cycle
+  allocated: number;
+  // Allocated share of the farm's full capacity
+  utilization: number | null;
+  // Live weight per m² at the allocated placement
+  densityKgPerM2: number | null;
+  overDensityLimit: boolean;
+}
+
+export interface PortfolioAllocation {
+  farms: FarmAllocation[];
+  // SN9, the placement per cycle to spread over the farms
+  demand: number | null;
+  totalCapacity: number;
+  allocated: number;
+  shortfall: number;
+  // Standard (SN10) farms that would close the shortfall
+  additionalStandardFarms: number | null;
+}
+
+export function createPortfolioFarm(name: string, from?: Partial<PortfolioFarm>): PortfolioFarm {
+  return {
+    houses: null,
+    houseArea: null,
+    capacity: null,
+    availabilityPercent: 100,
+    ...from,
+    id: crypto.randomUUID(),
+    name
+  };
+}
+
+const positive = (value: number | null) =>
+  value != null && Number.isFinite(value) && value > 0 ? value : null;
+
+/**
+ * Spreads SN9 over the portfolio in proportion to each farm's effective
+ * capacity, so every farm runs at the same utilization. Placement beyond the
+ * total capacity is the shortfall, which is expressed in standard farms of
+ * SN10 birds/cycle.
+ */
+export function allocatePortfolio(
+  scenario: BroilerScenario,
+  results: BroilerResults
+): PortfolioAllocation {
+  const demand = results.sn9PlacementPerCycle ?? null;
+  const capacities = scenario.farms.map((farm) => {
+    const capacity = positive(farm.capacity);
+    if (capacity == null) return null;
+    const availability = farm.availabilityPercent ?? 100;
+    return (capacity * Math.min(Math.max(availability, 0), 100)) / 100;
+  });
+  const totalCapacity = capacities.reduce<number>((sum, c) => sum + (c ?? 0), 0);
+  const fill = demand != null && totalCapacity > 0 ? Math.min(demand / totalCapacity, 1) : 0;
+
+  const limit = scenario.config.densityLimitKgPerM2;
+  const weight = applyGrowthCurve(scenario.inputs, scenario.config).inputs
+    .sn2HarvestBirdAvgWeight;
+  const farms = scenario.farms.map((farm, index): FarmAllocation => {
+    const effectiveCapacity = capacities[index];
+    const allocated = (effectiveCapacity ?? 0) * fill;
+    const capacity = positive(farm.capacity);
+    const houses = positive(farm.houses);
+    const houseArea = positive(farm.houseArea);
+    const densityKgPerM2 =
+      houses != null && houseArea != null && weight != null && effectiveCapacity != null
+        ? (allocated * weight) / (houses * houseArea)
+        : null;
+    return {
+      farm,
+      effectiveCapacity,
+      allocated,
+      utilization: capacity != null ? allocated / capacity : null,
+      densityKgPerM2,
+      overDensityLimit: limit != null && densityKgPerM2 != null && densityKgPerM2 > limit
+    };
+  });
+
+  // Taken from the totals rather than summed, so rounding in the per-farm
+  // shares cannot leave a phantom shortfall
+  const allocated = demand != null ? Math.min(demand, totalCapacity) : 0;
+  const shortfall = demand != null ? Math.max(demand - totalCapacity, 0) : 0;
+  const standard = positive(scenario.inputs.sn10FarmCapacity);
+  return {
+    farms,
+    demand,
+    totalCapacity,
+    allocated,
+    shortfall,
+    additionalStandardFarms:
+      demand == null || standard == null ? null : Math.ceil(shortfall / standard)
+  };
+}
@@ -0,0 +1,245 @@
+import { jsPDF } from "jspdf";
+import { formatNumber, horizonUnitLabel } from "./calculations";
+import { describeDensityLimit } from "./density";
+import { describeGrowthLink } from "./growth";
+import type { PortfolioAllocation } from "./portfolio";
+import type { BroilerDiagnostic, BroilerScenario } from "./types";
+import { fieldLabels, inputKeys, inputSchema } from "./validation";
+
+export interface ReportValueRow {
+  label: string;
+  uom: string;
+  base: number | null;
+  rounded: number | null;
+  floored: number | null;
+  decimals: number;
+}
+
+export interface PlanningReportContent {
+  scenario: BroilerScenario;
+  unitsModeLabel: string;
+  inputUnits: Record<string, string>;
+  parameters: ReportValueRow[];
+  summary: ReportValueRow[];
+  // Left out of the report when the scenario has no farms
+  portfolio: PortfolioAllocation | null;
+  diagnostics: BroilerDiagnostic[];
+}
+
+// The scenario's BroilerConfig in plain language; also shown on the review step.
+export function describeAssumptions(
+  scenario: BroilerScenario,
+  unitsModeLabel: string
+): string[] {
+  const c = scenario.config;
+  return [
+    `Units: ${unitsModeLabel}`,
+    c.useYield
+      ? `Live weight adjusted by a ${formatNumber(scenario.inputs.yieldPercent ?? undefined)}% yield`
+      : "No yield adjustment",
+    c.useFullCyclesOnly ? "Only full cycles are counted" : "Partial cycles are counted",
+    c.useLeapYearCycles ? "Years are 365.25 days" : "Years are 365 days",
+    c.mortalityAsPercent ? "Mortality entered as percent" : "Mortality entered as a fraction",
+    c.composeCycleTime
+      ? "Cycle time is grow-out plus cleanout and downtime"
+      : "Cycle time entered as a whole",
+    c.densityLimitKgPerM2 == null
+      ? "No stocking density limit"
+      : `Stocking density limited to ${describeDensityLimit(c)}`,
+    c.growthCurve == null ? "No growth curve" : `Growth curve: ${describeGrowthLink(c)}`
+  ];
+}
+
+// The built-in PDF fonts only cover Latin-1, so anything else is spelled out.
+const latin1Replacements: Record<string, string> = {
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "…": "...",
+  "≥": ">=",
+  "≤": "<=",
+  "×": "x",
+  "÷": "/"
+};
+
+// Locales such as fr-FR group digits with U+202F or U+00A0, which would
+// otherwise print as "?" or an odd glyph inside every number.
+const pdfText = (text: string) =>
+  Array.from(text.replace(/[\u00a0\u202f]/g, " "), (ch) =>
+    ch.charCodeAt(0) <= 0xff ? ch : latin1Replacements[ch] ?? "?"
+  ).join("");
+
+const PAGE = { width: 210, height: 297, margin: 14 };
+const LINE = 4.6;
+
+/**
+ * One-page A4 plan: scenario details, inputs and assumptions, the Full
+ * Parameters and Summary tables for base, rounded and floored farms, the
+ * farm portfolio if there is one, and calculation warnings. Built entirely
+ * in the browser.
+ */
+export function buildPlanningReport(content: PlanningReportContent): jsPDF {
+  const { scenario } = content;
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const right = PAGE.width - PAGE.margin;
+  let y = PAGE.margin;
+
+  // Long warning lists spill onto further pages rather than off the edge
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE.height - PAGE.margin) {
+      doc.addPage();
+      y = PAGE.margin;
+    }
+  };
+
+  const text = (value: string, x: number, options: { align?: "right" } = {}) => {
+    doc.text(pdfText(value), x, y, options);
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(LINE * 3);
+    y += 3;
+    doc.setFont("helvetica", "bold").setFontSize(11);
+    text(title, PAGE.margin);
+    doc.setDrawColor(229, 231, 235).line(PAGE.margin, y + 1.5, right, y + 1.5);
+    y += LINE + 1.5;
+    doc.setFont("helvetica", "normal").setFontSize(9);
+  };
+
+  const valueTable = (firstColumn: string, rows: ReportValueRow[]) => {
+    const columns = [right - 66, right - 33, right];
+    doc.setFont("helvetica", "bold");
+    text(firstColumn, PAGE.margin);
+    text("UOM", PAGE.margin + 72);
+    ["Base", "Rounded", "Floored"].forEach((label, i) =>
+      text(label, columns[i], { align: "right" })
+    );
+    doc.setFont("helvetica", "normal");
+    y += LINE;
+    rows.forEach((row) => {
+      ensureSpace(LINE);
+      text(row.label, PAGE.margin);
+      text(row.uom, PAGE.margin + 72);
+      [row.base, row.rounded, row.floored].forEach((value, i) =>
+        text(
+          formatNumber(value ?? undefined, { maximumFractionDigits: row.decimals }),
+          columns[i],
+          { align: "right" }
+        )
+      );
+      y += LINE;
+    });
+  };
+
+  doc.setFont("helvetica", "bold").setFontSize(16);
+  y += 2;
+  text(scenario.name || "Untitled scenario", PAGE.margin);
+  y += LINE + 2;
+  doc.setFont("helvetica", "normal").setFontSize(9).setTextColor(75, 85, 99);
+  if (scenario.description) {
+    const lines: string[] = doc.splitTextToSize(
+      pdfText(scenario.description),
+      right - PAGE.margin
+    );
+    doc.text(lines, PAGE.margin, y);
+    y += lines.length * LINE;
+  }
+  text(
+    `Broiler capacity plan · totals per ${horizonUnitLabel(scenario)} · generated ${new Date().toLocaleString()}`,
+    PAGE.margin
+  );
+  y += LINE;
+  doc.setTextColor(17, 24, 39);
+
+  heading("Inputs and assumptions");
+  const assumptions = describeAssumptions(scenario, content.unitsModeLabel);
+  const inputs = inputKeys.filter(
+    (key) => inputSchema[key].appliesWhen?.(scenario) ?? true
+  );
+  const top = y;
+  inputs.forEach((key) => {
+    text(`${fieldLabels[key] ?? key}:`, PAGE.margin);
+    text(
+      `${formatNumber(scenario.inputs[key] ?? undefined, { maximumFractionDigits: 6 })} ${
+        content.inputUnits[key] ?? ""
+      }`.trim(),
+      PAGE.margin + 88,
+      { align: "right" }
+    );
+    y += LINE;
+  });
+  const bottom = y;
+  y = top;
+  assumptions.forEach((line) => {
+    text(`- ${line}`, PAGE.width / 2 + 4);
+    y += LINE;
+  });
+  y = Math.max(bottom, y);
+
+  heading("Full parameters");
+  valueTable("Parameter", content.parameters);
+
+  heading("Summary");
+  valueTable("Metric", content.summary);
+
+  if (content.portfolio) {
+    const { portfolio } = content;
+    heading("Farm portfolio");
+    const columns = [right - 99, right - 66, right - 33, right];
+    doc.setFont("helvetica", "bold");
+    text("Farm", PAGE.margin);
+    ["Capacity", "Availability", "Placed", "Utilization"].forEach((label, i) =>
+      text(label, columns[i], { align: "right" })
+    );
+    doc.setFont("helvetica", "normal");
+    y += LINE;
+    portfolio.farms.forEach(({ farm, allocated, utilization }) => {
+      ensureSpace(LINE);
+      text(farm.name || "Unnamed farm", PAGE.margin);
+      [
+        formatNumber(farm.capacity ?? undefined),
+        farm.availabilityPercent == null ? "-" : `${formatNumber(farm.availabilityPercent)}%`,
+        formatNumber(allocated, { maximumFractionDigits: 0 }),
+        utilization == null
+          ? "-"
+          : `${formatNumber(utilization * 100, { maximumFractionDigits: 1 })}%`
+      ].forEach((value, i) => text(value, columns[i], { align: "right" }));
+      y += LINE;
+    });
+    ensureSpace(LINE);
+    text(
+      `Shortfall ${formatNumber(portfolio.shortfall, {
+        maximumFractionDigits: 0
+      })} birds/cycle; ${formatNumber(
+        portfolio.additionalStandardFarms ?? undefined
+      )} additional standard farms needed.`,
+      PAGE.margin
+    );
+    y += LINE;
+  }
+
+  heading("Warnings");
+  if (content.diagnostics.length === 0) {
+    text("None. Every output could be calculated from the inputs.", PAGE.margin);
+    y += LINE;
+  } else {
+    content.diagnostics.forEach((d) => {
+      const lines: string[] = doc.splitTextToSize(
+        pdfText(`- ${d.message}`),
+        right - PAGE.margin
+      );
+      ensureSpace(lines.length * LINE);
+      doc.text(lines, PAGE.margin, y);
+      y += lines.length * LINE;
+    });
+  }
+
+  return doc;
+}
+
+export function downloadPlanningReport(content: PlanningReportContent, fileName: string) {
+  buildPlanningReport(content).save(fileName);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { sheetConfig, sheetInputs } from "./fixtures/scenario";
+import { diffRevisions } from "./revisions";
+import type { BroilerInputs, ScenarioRevision } from "./types";
+
+const revision = (id: string, inputs: Partial<BroilerInputs>): ScenarioRevision => ({
+  id,
+  savedAt: "2024-01-01T00:00:00.000Z",
+  timeHorizon: "year",
+  inputs: { ...sheetInputs, ...inputs },
+  config: {
+    ...sheetConfig,
+    unitsMode: "meatTonsWithYield",
+    useYield: true,
+    composeCycleTime: true
+  }
+});
+
+describe("diffRevisions", () => {
+  it("lists every edited input, not only the outputs it moves", () => {
+    const before = revision("before", { yieldPercent: 72, growOutDays: 35, cleanoutDays: 14 });
+    const after = revision("after", { yieldPercent: 75, growOutDays: 39, cleanoutDays: 10 });
+    const rows = diffRevisions(before, after).rows;
+
+    expect(rows.map((row) => row.label)).toEqual([
+      "Yield %",
+      "Harvest Birds Number",
+      "Overall Broiler Placement",
+      "Grow-out Age at Harvest",
+      "Cleanout Days",
+      "Broiler Harvest Per Cycle",
+      "Broiler Placement Per Cycle",
+      "Broiler No. of Farms"
+    ]);
+    expect(rows.find((row) => row.label === "Cleanout Days")?.cells[1]).toMatchObject({
+      value: 10,
+      delta: -4
+    });
+  });
+
+  it("keeps the key outputs when nothing changed", () => {
+    const rows = diffRevisions(revision("a", {}), revision("b", {})).rows;
+    expect(rows.map((row) => row.sn)).toEqual(["SN3", "SN9", "SN14"]);
+  });
+});
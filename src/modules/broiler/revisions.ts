@@ -0,0 +1,47 @@
+import { buildScenarioComparison } from "./compare";
+import type { ComparisonRow, ConfigComparisonRow } from "./compare";
+import type { BroilerScenario, ScenarioRevision } from "./types";
+
+// Older revisions are dropped beyond this many
+export const MAX_REVISIONS = 50;
+
+// Outputs always shown in a revision diff, changed or not
+const keyOutputs = ["SN3", "SN9", "SN14"];
+
+// Marks the scenario as saved now and records its assumptions as a revision.
+export function withRevision(scenario: BroilerScenario, note?: string): BroilerScenario {
+  const savedAt = new Date().toISOString();
+  const revision: ScenarioRevision = {
+    id: crypto.randomUUID(),
+    savedAt,
+    note: note?.trim() || undefined,
+    timeHorizon: scenario.timeHorizon,
+    customDays: scenario.customDays,
+    inputs: { ...scenario.inputs },
+    config: { ...scenario.config }
+  };
+  return {
+    ...scenario,
+    updatedAt: savedAt,
+    revisions: [...scenario.revisions, revision].slice(-MAX_REVISIONS)
+  };
+}
+
+export interface RevisionDiff {
+  // Inputs and calculated outputs; inputs only when they changed
+  rows: ComparisonRow[];
+  configRows: ConfigComparisonRow[];
+}
+
+// Field-by-field differences from `before` to `after`, with the resulting
+// change in SN3, SN9 and SN14.
+export function diffRevisions(before: ScenarioRevision, after: ScenarioRevision): RevisionDiff {
+  const comparison = buildScenarioComparison([before, after], before.id);
+  return {
+    rows: comparison.rows.filter((row) => {
+      const [a, b] = row.cells;
+      return (row.sn != null && keyOutputs.includes(row.sn)) || a.value !== b.value;
+    }),
+    configRows: comparison.configRows.filter((row) => row.differs[1])
+  };
+}
@@ -0,0 +1,92 @@
+import { computeBroilerResults, inputIsEntered } from "./calculations";
+import type { BroilerOutputKey } from "./calculations";
+import type {
+  BroilerConfig,
+  BroilerHorizon,
+  BroilerInputs
+} from "./types";
+
+export const sensitivityFields: { key: keyof BroilerInputs; label: string }[] = [
+  { key: "sn2HarvestBirdAvgWeight", label: "SN2 · Harvest Birds Average Weight" },
+  { key: "sn4PlannedMortality", label: "SN4 · Planned Mortality" },
+  { key: "sn6CycleTimeDays", label: "SN6 · Broiler Cycle Time" },
+  { key: "growOutDays", label: "Grow-out Age at Harvest" },
+  { key: "cleanoutDays", label: "Cleanout Days" },
+  { key: "downtimeDays", label: "Downtime Buffer" },
+  { key: "sn10FarmCapacity", label: "SN10 · Broiler Farm Capacity" },
+  { key: "yieldPercent", label: "Yield %" }
+];
+
+export interface SensitivityRow {
+  key: keyof BroilerInputs;
+  label: string;
+  baseInput: number;
+  lowInput: number;
+  highInput: number;
+  lowOutput: number | null;
+  highOutput: number | null;
+  // Largest absolute move of the output away from the base value
+  swing: number;
+}
+
+export interface SensitivityAnalysis {
+  output: BroilerOutputKey;
+  rangePercent: number;
+  baseOutput: number | null;
+  rows: SensitivityRow[];
+}
+
+/**
+ * Moves each input in `sensitivityFields` down and up by `rangePercent` of
+ * its current value, one at a time, and ranks the inputs by how far `output`
+ * moves. Inputs that are blank or do not apply (yield without Use Yield %)
+ * are left out, as are inputs the model does not take as entered.
+ */
+export function runSensitivity(
+  inputs: BroilerInputs,
+  config: BroilerConfig,
+  horizon: BroilerHorizon,
+  output: BroilerOutputKey,
+  rangePercent: number
+): SensitivityAnalysis {
+  const outputFor = (candidate: BroilerInputs): number | null => {
+    const value = computeBroilerResults(candidate, config, horizon)[output];
+    return value != null && Number.isFinite(value) ? value : null;
+  };
+  const baseOutput = outputFor(inputs);
+  const factor = Math.abs(rangePercent) / 100;
+
+  const rows = sensitivityFields
+    .filter((field) => field.key !== "yieldPercent" || config.useYield)
+    .filter((field) => inputIsEntered(field.key, config))
+    .flatMap((field): SensitivityRow[] => {
+      const baseInput = inputs[field.key];
+      if (baseInput == null || !Number.isFinite(baseInput)) return [];
+      const lowInput = baseInput * (1 - factor);
+      const highInput = baseInput * (1 + factor);
+      const lowOutput = outputFor({ ...inputs, [field.key]: lowInput });
+      const highOutput = outputFor({ ...inputs, [field.key]: highInput });
+      const swing =
+        baseOutput == null
+          ? 0
+          : Math.max(
+              lowOutput != null ? Math.abs(lowOutput - baseOutput) : 0,
+              highOutput != null ? Math.abs(highOutput - baseOutput) : 0
+            );
+      return [
+        {
+          key: field.key,
+          label: field.label,
+          baseInput,
+          lowInput,
+          highInput,
+          lowOutput,
+          highOutput,
+          swing
+        }
+      ];
+    })
+    .sort((a, b) => b.swing - a.swing);
+
+  return { output, rangePercent, baseOutput, rows };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { sheetScenario } from "./fixtures/scenario";
+import { decodeShareToken, encodeShareToken } from "./share";
+import type { BroilerScenario } from "./types";
+
+const scenario = sheetScenario({ id: "shared" });
+
+const base: BroilerScenario = { ...scenario, id: "opened", name: "" };
+
+const tokenFor = (payload: unknown[]) =>
+  `v1.${btoa(JSON.stringify(payload)).replace(/=+$/, "")}`;
+
+describe("share tokens", () => {
+  it("round-trips a scenario", () => {
+    const result = decodeShareToken(encodeShareToken(scenario), base);
+    expect(result).toEqual({
+      ok: true,
+      scenario: { ...scenario, id: "opened", description: undefined }
+    });
+  });
+
+  it("reads a v1 link with the later fields defaulted", () => {
+    const inputs = [50000, 1.8, 8, 60, 350000, 12, 1680, 72];
+    const result = decodeShareToken(tokenFor(["Old", "", 0, null, inputs, 0, 8]), base);
+    expect(result.ok && result.scenario.inputs).toEqual({
+      ...scenario.inputs,
+      growOutDays: null,
+      cleanoutDays: null,
+      downtimeDays: null
+    });
+  });
+
+  it.each([
+    ["a text input", [50000, "1.8", 8, 60, 350000, 12, 1680, 72]],
+    ["a missing input", [50000, 1.8, 8, 60, 350000, 12, 1680]],
+    ["inputs that are not a list", { sn1TargetBroilerMeat: 50000 }]
+  ])("rejects %s", (_name, inputs) => {
+    const result = decodeShareToken(tokenFor(["Bad", "", 0, null, inputs, 0, 8]), base);
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,385 @@
+import { buildHref } from "../../router";
+import { CAPACITY_PLANNING_PATH } from "../../routes";
+import { checkGrowthPoints } from "./growth";
+import type {
+  BroilerInputs,
+  BroilerScenario,
+  GrowthCurve,
+  GrowthDerive,
+  PortfolioFarm,
+  TimeHorizonKey
+} from "./types";
+import {
+  fieldErrorMessages,
+  growthDerives,
+  timeHorizonKeys,
+  unitsModeKeys,
+  validateScenario
+} from "./validation";
+
+// Query parameter on the capacity planning route that carries a shared scenario
+export const SHARE_QUERY_KEY = "share";
+
+// Bump together with a new entry in `decoders` whenever the payload
+// layout below changes. Links are sent to other people, so older versions
+// should keep decoding for as long as practical.
+export const SHARE_LINK_VERSION = 5;
+
+// v1 payload, a JSON array kept short so links survive chat and email:
+//   [name, description, timeHorizon, customDays, inputs, unitsMode, flags]
+// with `inputs` in the order below and `flags` a bit set of configFlags.
+// v2 appends the density limit in kg/m² (or null); v3 then appends the farm
+// portfolio as [name, houses, houseArea, capacity, availabilityPercent] rows;
+// v4 then appends the cycle parts in the order of cycleInputOrder; v5 then
+// appends the growth curve as [derive, id, name, [[ageDays, weightKg], ...]]
+// (or null).
+const v1InputOrder: (keyof BroilerInputs)[] = [
+  "sn1TargetBroilerMeat",
+  "sn2HarvestBirdAvgWeight",
+  "sn4PlannedMortality",
+  "sn6CycleTimeDays",
+  "sn10FarmCapacity",
+  "sn11NumberOfHouses",
+  "sn12HouseArea",
+  "yieldPercent"
+];
+
+const cycleInputOrder = ["growOutDays", "cleanoutDays", "downtimeDays"] as const;
+
+// New flags go at the end; older links leave their bits unset
+const configFlags = [
+  "useYield",
+  "useFullCyclesOnly",
+  "useLeapYearCycles",
+  "mortalityAsPercent",
+  "composeCycleTime"
+] as const;
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+export function encodeShareToken(scenario: BroilerScenario): string {
+  const payload = [
+    scenario.name,
+    scenario.description ?? "",
+    timeHorizonKeys.indexOf(scenario.timeHorizon),
+    scenario.customDays ?? null,
+    v1InputOrder.map((key) => scenario.inputs[key]),
+    unitsModeKeys.indexOf(scenario.config.unitsMode),
+    configFlags.reduce(
+      (bits, flag, index) => (scenario.config[flag] ? bits | (1 << index) : bits),
+      0
+    ),
+    scenario.config.densityLimitKgPerM2,
+    scenario.farms.map((farm) => [
+      farm.name,
+      farm.houses,
+      farm.houseArea,
+      farm.capacity,
+      farm.availabilityPercent
+    ]),
+    cycleInputOrder.map((key) => scenario.inputs[key]),
+    scenario.config.growthCurve && [
+      scenario.config.growthDerive,
+      scenario.config.growthCurve.id,
+      scenario.config.growthCurve.name,
+      scenario.config.growthCurve.points.map((p) => [p.ageDays, p.weightKg])
+    ]
+  ];
+  return `v${SHARE_LINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+// Absolute link that opens the scenario in the editor of this deployment
+export function buildShareLink(scenario: BroilerScenario): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${buildHref(CAPACITY_PLANNING_PATH, {
+    [SHARE_QUERY_KEY]: encodeShareToken(scenario)
+  })}`;
+}
+
+export type ShareDecodeResult =
+  | { ok: true; scenario: BroilerScenario }
+  | { ok: false; reason: string };
+
+const damaged = (): ShareDecodeResult => ({
+  ok: false,
+  reason: "This scenario link is damaged or incomplete. Ask for the link to be copied again."
+});
+
+const isNumberOrNull = (value: unknown): value is number | null =>
+  value === null || (typeof value === "number" && Number.isFinite(value));
+
+// Fields added after v1, with the defaults used for older links
+interface LaterFields {
+  densityLimitKgPerM2: number | null;
+  farms: PortfolioFarm[];
+  cycleInputs: Pick<BroilerInputs, (typeof cycleInputOrder)[number]>;
+  growthCurve: GrowthCurve | null;
+  growthDerive: GrowthDerive;
+}
+
+const laterDefaults: LaterFields = {
+  densityLimitKgPerM2: null,
+  farms: [],
+  cycleInputs: { growOutDays: null, cleanoutDays: null, downtimeDays: null },
+  growthCurve: null,
+  growthDerive: "age"
+};
+
+function decodeV1(payload: unknown, base: BroilerScenario): ShareDecodeResult {
+  if (!Array.isArray(payload) || payload.length !== 7) return damaged();
+  return decodePayload(payload, laterDefaults, base);
+}
+
+function decodeV2(payload: unknown, base: BroilerScenario): ShareDecodeResult {
+  if (!Array.isArray(payload) || payload.length !== 8) return damaged();
+  const densityLimit = payload[7];
+  if (!isNumberOrNull(densityLimit)) return damaged();
+  return decodePayload(
+    payload.slice(0, 7),
+    { ...laterDefaults, densityLimitKgPerM2: densityLimit },
+    base
+  );
+}
+
+function decodeFarms(raw: unknown): PortfolioFarm[] | null {
+  if (
+    !Array.isArray(raw) ||
+    !raw.every(
+      (farm) =>
+        Array.isArray(farm) &&
+        farm.length === 5 &&
+        typeof farm[0] === "string" &&
+        farm.slice(1).every(isNumberOrNull)
+    )
+  ) {
+    return null;
+  }
+  return raw.map(([name, houses, houseArea, capacity, availabilityPercent]) => ({
+    id: crypto.randomUUID(),
+    name,
+    houses,
+    houseArea,
+    capacity,
+    availabilityPercent
+  }));
+}
+
+type V1Inputs = Omit<BroilerInputs, (typeof cycleInputOrder)[number]>;
+
+// The inputs every version carries, in the order of v1InputOrder
+function decodeV1Inputs(raw: unknown): V1Inputs | null {
+  if (!Array.isArray(raw) || raw.length !== v1InputOrder.length) return null;
+  const values: unknown[] = raw;
+  if (!values.every(isNumberOrNull)) return null;
+  const [
+    sn1TargetBroilerMeat,
+    sn2HarvestBirdAvgWeight,
+    sn4PlannedMortality,
+    sn6CycleTimeDays,
+    sn10FarmCapacity,
+    sn11NumberOfHouses,
+    sn12HouseArea,
+    yieldPercent
+  ] = values;
+  return {
+    sn1TargetBroilerMeat,
+    sn2HarvestBirdAvgWeight,
+    sn4PlannedMortality,
+    sn6CycleTimeDays,
+    sn10FarmCapacity,
+    sn11NumberOfHouses,
+    sn12HouseArea,
+    yieldPercent
+  };
+}
+
+function decodeCycleInputs(raw: unknown): LaterFields["cycleInputs"] | null {
+  if (
+    !Array.isArray(raw) ||
+    raw.length !== cycleInputOrder.length ||
+    !raw.every(isNumberOrNull)
+  ) {
+    return null;
+  }
+  return { growOutDays: raw[0], cleanoutDays: raw[1], downtimeDays: raw[2] };
+}
+
+// The curve with how it is linked, or null when the link does not hold one
+function decodeGrowthCurve(
+  raw: unknown
+): Pick<LaterFields, "growthCurve" | "growthDerive"> | null {
+  if (raw === null) return { growthCurve: null, growthDerive: "age" };
+  if (!Array.isArray(raw) || raw.length !== 4) return null;
+  const [derive, id, name, points] = raw;
+  if (
+    !growthDerives.includes(derive) ||
+    typeof id !== "string" ||
+    typeof name !== "string" ||
+    !Array.isArray(points) ||
+    !points.every(
+      (p) => Array.isArray(p) && p.length === 2 && p.every((v) => typeof v === "number")
+    )
+  ) {
+    return null;
+  }
+  const curve: GrowthCurve = {
+    id,
+    name,
+    points: points.map(([ageDays, weightKg]) => ({ ageDays, weightKg }))
+  };
+  if (checkGrowthPoints(curve.points)) return null;
+  return { growthCurve: curve, growthDerive: derive };
+}
+
+function decodeV3(payload: unknown, base: BroilerScenario): ShareDecodeResult {
+  if (!Array.isArray(payload) || payload.length !== 9) return damaged();
+  const densityLimit = payload[7];
+  const farms = decodeFarms(payload[8]);
+  if (!isNumberOrNull(densityLimit) || !farms) return damaged();
+  return decodePayload(
+    payload.slice(0, 7),
+    { ...laterDefaults, densityLimitKgPerM2: densityLimit, farms },
+    base
+  );
+}
+
+function decodeV4(payload: unknown, base: BroilerScenario): ShareDecodeResult {
+  if (!Array.isArray(payload) || payload.length !== 10) return damaged();
+  const densityLimit = payload[7];
+  const farms = decodeFarms(payload[8]);
+  const cycleInputs = decodeCycleInputs(payload[9]);
+  if (!isNumberOrNull(densityLimit) || !farms || !cycleInputs) return damaged();
+  return decodePayload(
+    payload.slice(0, 7),
+    { ...laterDefaults, densityLimitKgPerM2: densityLimit, farms, cycleInputs },
+    base
+  );
+}
+
+function decodeV5(payload: unknown, base: BroilerScenario): ShareDecodeResult {
+  if (!Array.isArray(payload) || payload.length !== 11) return damaged();
+  const densityLimit = payload[7];
+  const farms = decodeFarms(payload[8]);
+  const cycleInputs = decodeCycleInputs(payload[9]);
+  const growth = decodeGrowthCurve(payload[10]);
+  if (!isNumberOrNull(densityLimit) || !farms || !cycleInputs || !growth) return damaged();
+  return decodePayload(
+    payload.slice(0, 7),
+    { densityLimitKgPerM2: densityLimit, farms, cycleInputs, ...growth },
+    base
+  );
+}
+
+// Builds the scenario from the v1 fields, which every later version starts with
+function decodePayload(
+  payload: unknown[],
+  later: LaterFields,
+  base: BroilerScenario
+): ShareDecodeResult {
+  const [name, description, horizonIndex, customDays, rawInputs, unitsIndex, flags] = payload;
+  const inputs = decodeV1Inputs(rawInputs);
+  if (
+    typeof name !== "string" ||
+    typeof description !== "string" ||
+    typeof horizonIndex !== "number" ||
+    !timeHorizonKeys[horizonIndex] ||
+    !isNumberOrNull(customDays) ||
+    !inputs ||
+    typeof unitsIndex !== "number" ||
+    !unitsModeKeys[unitsIndex] ||
+    typeof flags !== "number"
+  ) {
+    return damaged();
+  }
+
+  const timeHorizon: TimeHorizonKey = timeHorizonKeys[horizonIndex];
+  const flag = (key: (typeof configFlags)[number]) =>
+    (flags & (1 << configFlags.indexOf(key))) !== 0;
+  const scenario: BroilerScenario = {
+    ...base,
+    name,
+    description: description || undefined,
+    timeHorizon,
+    customDays: timeHorizon === "customDays" ? customDays ?? undefined : undefined,
+    inputs: { ...inputs, ...later.cycleInputs },
+    config: {
+      unitsMode: unitsModeKeys[unitsIndex],
+      useYield: flag("useYield"),
+      useFullCyclesOnly: flag("useFullCyclesOnly"),
+      useLeapYearCycles: flag("useLeapYearCycles"),
+      mortalityAsPercent: flag("mortalityAsPercent"),
+      composeCycleTime: flag("composeCycleTime"),
+      densityLimitKgPerM2: later.densityLimitKgPerM2,
+      growthCurve: later.growthCurve,
+      growthDerive: later.growthDerive
+    },
+    farms: later.farms
+  };
+
+  // The name is only required once the scenario is saved
+  const errors = validateScenario(scenario);
+  delete errors.scenarioName;
+  const messages = fieldErrorMessages(errors);
+  if (messages.length > 0) {
+    return {
+      ok: false,
+      reason: `This scenario link contains invalid values. ${messages.join(" ")}`
+    };
+  }
+  return { ok: true, scenario };
+}
+
+const decoders: Record<
+  number,
+  (payload: unknown, base: BroilerScenario) => ShareDecodeResult
+> = {
+  1: decodeV1,
+  2: decodeV2,
+  3: decodeV3,
+  4: decodeV4,
+  5: decodeV5
+};
+
+// Reads a token made by encodeShareToken into a new, unsaved scenario built
+// on `base` (which supplies the id and timestamps).
+export function decodeShareToken(token: string, base: BroilerScenario): ShareDecodeResult {
+  const match = /^v(\d+)\.([A-Za-z0-9_-]+)$/.exec(token.trim());
+  if (!match) return damaged();
+
+  const version = Number(match[1]);
+  if (version > SHARE_LINK_VERSION) {
+    return {
+      ok: false,
+      reason:
+        "This scenario link was made by a newer version of the planner. Reload the page to update, then open the link again."
+    };
+  }
+
+  const decode = decoders[version];
+  if (!decode) {
+    return {
+      ok: false,
+      reason: `This scenario link uses an outdated format (v${version}) that can no longer be opened. Ask for a new link.`
+    };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    return damaged();
+  }
+  return decode(payload, base);
+}
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { stubLocalStorage } from "./fixtures/memoryStorage";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+import {
+  QUARANTINE_KEY,
+  STORAGE_KEY,
+  deleteScenario,
+  loadScenarios,
+  newerStoredSchemaVersion,
+  upsertScenario
+} from "./storage";
+import type { StoredScenarios } from "./storage";
+import type { BroilerScenario } from "./types";
+
+// What each schema version wrote under STORAGE_KEY, one saved scenario each
+const fixtures = import.meta.glob<unknown>("./fixtures/storage/v*.json", {
+  eager: true,
+  import: "default"
+});
+const fixtureFor = (version: number) => fixtures[`./fixtures/storage/v${version}.json`];
+
+const current = (fixtureFor(CURRENT_SCHEMA_VERSION) as StoredScenarios).scenarios[0];
+
+// The current scenario as an older version saved it: fields added since then
+// get the defaults their migration fills in
+function expectedFrom(version: number): BroilerScenario {
+  const withDefaults = <T extends Pick<BroilerScenario, "inputs" | "config">>(
+    assumptions: T
+  ): T => ({
+    ...assumptions,
+    inputs: {
+      ...assumptions.inputs,
+      ...(version < 2 && { yieldPercent: null }),
+      ...(version < 7 && { growOutDays: null, cleanoutDays: null, downtimeDays: null })
+    },
+    config: {
+      ...assumptions.config,
+      ...(version < 5 && { densityLimitKgPerM2: null }),
+      ...(version < 7 && { composeCycleTime: false }),
+      ...(version < 8 && { growthCurve: null, growthDerive: "age" })
+    }
+  });
+  const scenario = withDefaults(current);
+  const updatedAt = version < 3 ? scenario.createdAt : scenario.updatedAt;
+  return {
+    ...scenario,
+    updatedAt,
+    farms: version < 6 ? [] : scenario.farms,
+    revisions:
+      version < 4
+        ? [
+            {
+              id: `${scenario.id}-initial`,
+              savedAt: updatedAt,
+              note: "Saved before revision history was kept",
+              timeHorizon: scenario.timeHorizon,
+              inputs: scenario.inputs,
+              config: scenario.config
+            }
+          ]
+        : scenario.revisions.map(withDefaults)
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("loadScenarios", () => {
+  const versions = Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, i) => i + 1);
+
+  it("has a fixture for every schema version", () => {
+    expect(Object.keys(fixtures).sort()).toEqual(
+      versions.map((v) => `./fixtures/storage/v${v}.json`).sort()
+    );
+  });
+
+  it.each(versions)("upgrades a scenario saved at schema v%i", (version) => {
+    const read = stubLocalStorage({ [STORAGE_KEY]: fixtureFor(version) });
+    const scenarios = loadScenarios();
+
+    expect(scenarios).toEqual([expectedFrom(version)]);
+    expect(read(QUARANTINE_KEY)).toBeNull();
+    // Written back once, so the migration does not run again
+    expect(read(STORAGE_KEY)).toEqual({ version: CURRENT_SCHEMA_VERSION, scenarios });
+  });
+
+  it("quarantines records that fail validation and keeps the rest", () => {
+    const broken = {
+      ...current,
+      id: "broken",
+      inputs: { ...current.inputs, sn10FarmCapacity: "350 000" }
+    };
+    const read = stubLocalStorage({
+      [STORAGE_KEY]: { version: CURRENT_SCHEMA_VERSION, scenarios: [current, broken] }
+    });
+
+    expect(loadScenarios().map((s) => s.id)).toEqual([current.id]);
+    expect(read(QUARANTINE_KEY)).toEqual([
+      expect.objectContaining({ record: broken, fromVersion: CURRENT_SCHEMA_VERSION })
+    ]);
+    expect((read(STORAGE_KEY) as StoredScenarios).scenarios).toHaveLength(1);
+  });
+
+  it("leaves a list saved by a newer version untouched", () => {
+    const newer = { version: CURRENT_SCHEMA_VERSION + 1, scenarios: [current] };
+    const read = stubLocalStorage({ [STORAGE_KEY]: newer });
+
+    expect(newerStoredSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION + 1);
+    expect(loadScenarios()).toEqual([]);
+    expect(upsertScenario({ ...current, id: "older-tab" })).toHaveLength(1);
+    expect(deleteScenario(current.id)).toEqual([]);
+    expect(read(STORAGE_KEY)).toEqual(newer);
+    expect(read(QUARANTINE_KEY)).toBeNull();
+  });
+
+  it("quarantines stored data that is not a list of scenarios", () => {
+    const read = stubLocalStorage({ [STORAGE_KEY]: "not scenarios" });
+
+    expect(loadScenarios()).toEqual([]);
+    expect(read(QUARANTINE_KEY)).toEqual([
+      expect.objectContaining({ record: "not scenarios", fromVersion: 0 })
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { BroilerScenario } from "./types";
+import { CURRENT_SCHEMA_VERSION, migrateRecord } from "./migrations";
+
+export const STORAGE_KEY = "broiler-scenarios-v1";
+export const QUARANTINE_KEY = "broiler-scenarios-quarantine";
+
+// What is written under STORAGE_KEY. Older builds wrote a bare array, which
+// is read as schema version 1.
+export interface StoredScenarios {
+  version: number;
+  scenarios: BroilerScenario[];
+}
+
+// A stored record that could not be migrated to the current schema. The raw
+// record is kept so nothing is lost and it can be downloaded for repair.
+export interface QuarantinedRecord {
+  record: unknown;
+  fromVersion: number;
+  reason: string;
+  quarantinedAt: string;
+}
+
+function readJson(key: string): unknown {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadQuarantine(): QuarantinedRecord[] {
+  const parsed = readJson(QUARANTINE_KEY);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+export function clearQuarantine() {
+  try {
+    window.localStorage.removeItem(QUARANTINE_KEY);
+  } catch {
+    // storage unavailable or full; callers keep working from memory
+  }
+}
+
+function quarantine(records: QuarantinedRecord[]) {
+  try {
+    window.localStorage.setItem(
+      QUARANTINE_KEY,
+      JSON.stringify([...loadQuarantine(), ...records])
+    );
+  } catch {
+    // storage unavailable or full; callers keep working from memory
+  }
+}
+
+function writeScenarios(list: BroilerScenario[]): BroilerScenario[] {
+  // Never overwrite what a newer build saved; callers keep working from memory
+  if (newerStoredSchemaVersion() != null) return list;
+  try {
+    const stored: StoredScenarios = { version: CURRENT_SCHEMA_VERSION, scenarios: list };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // storage unavailable or full; callers keep working from memory
+  }
+  return list;
+}
+
+// Splits anything in the StoredScenarios shape (or the bare array older
+// builds wrote) into its schema version and raw records. Version 0 means the
+// data is not a list of scenarios at all.
+export function unpackStoredScenarios(parsed: unknown): {
+  version: number;
+  records: unknown[];
+} {
+  if (Array.isArray(parsed)) {
+    return { version: 1, records: parsed };
+  }
+  if (
+    typeof parsed === "object" &&
+    parsed !== null &&
+    typeof (parsed as StoredScenarios).version === "number" &&
+    Array.isArray((parsed as StoredScenarios).scenarios)
+  ) {
+    return {
+      version: (parsed as StoredScenarios).version,
+      records: (parsed as StoredScenarios).scenarios
+    };
+  }
+  return { version: 0, records: [parsed] };
+}
+
+// The schema version of the stored list when a newer build of the app saved
+// it, e.g. after opening this build in an older tab; otherwise null. Such a
+// list is neither read nor written here, so nothing of it is lost.
+export function newerStoredSchemaVersion(): number | null {
+  const parsed = readJson(STORAGE_KEY);
+  if (parsed == null) return null;
+  const { version } = unpackStoredScenarios(parsed);
+  return version > CURRENT_SCHEMA_VERSION ? version : null;
+}
+
+// Reads the stored list, upgrading older records to the current schema. If
+// anything had to be migrated or set aside, the cleaned list is written back
+// so the work happens once.
+export function loadScenarios(): BroilerScenario[] {
+  const parsed = readJson(STORAGE_KEY);
+  if (parsed == null) return [];
+
+  const { version, records } = unpackStoredScenarios(parsed);
+  if (version > CURRENT_SCHEMA_VERSION) return [];
+  const scenarios: BroilerScenario[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  const quarantinedAt = new Date().toISOString();
+  records.forEach((record) => {
+    const result =
+      version === 0
+        ? { ok: false as const, reason: "Stored data is not a list of scenarios." }
+        : migrateRecord(record, version);
+    if (result.ok) {
+      scenarios.push(result.scenario);
+    } else {
+      rejected.push({ record, fromVersion: version, reason: result.reason, quarantinedAt });
+    }
+  });
+
+  if (rejected.length > 0) quarantine(rejected);
+  if (version !== CURRENT_SCHEMA_VERSION || rejected.length > 0) {
+    writeScenarios(scenarios);
+  }
+  return scenarios;
+}
+
+// Replaces the record with the same id in place, or appends a new one.
+export function upsertScenario(scenario: BroilerScenario): BroilerScenario[] {
+  const list = loadScenarios();
+  const index = list.findIndex((s) => s.id === scenario.id);
+  if (index === -1) {
+    return writeScenarios([...list, scenario]);
+  }
+  const updated = [...list];
+  updated[index] = scenario;
+  return writeScenarios(updated);
+}
+
+export function deleteScenario(id: string): BroilerScenario[] {
+  return writeScenarios(loadScenarios().filter((s) => s.id !== id));
+}
+
+export function duplicateScenario(id: string): BroilerScenario | null {
+  const source = loadScenarios().find((s) => s.id === id);
+  if (!source) return null;
+  const now = new Date().toISOString();
+  const copy: BroilerScenario = {
+    ...source,
+    id: crypto.randomUUID(),
+    name: `${source.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    inputs: { ...source.inputs },
+    config: { ...source.config }
+  };
+  upsertScenario(copy);
+  return copy;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { sheetScenario } from "./fixtures/scenario";
+import { planPull } from "./sync";
+const scenario = (id: string, updatedAt: string) =>
+  sheetScenario({ id, name: `Plan ${id}`, updatedAt });
+
+const JAN = "2024-01-01T00:00:00.000Z";
+const FEB = "2024-02-01T00:00:00.000Z";
+
+describe("planPull", () => {
+  it("downloads new and newer server copies", () => {
+    const plan = planPull(
+      [scenario("new", JAN), scenario("newer", FEB), scenario("older", JAN)],
+      [],
+      [scenario("newer", JAN), scenario("older", FEB)],
+      new Set()
+    );
+    expect(plan.download.map((s) => s.id)).toEqual(["new", "newer"]);
+    expect(plan.upload).toEqual([]);
+  });
+
+  it("uploads scenarios the server has never seen", () => {
+    const plan = planPull([], [], [scenario("mine", JAN)], new Set());
+    expect(plan.upload.map((s) => s.id)).toEqual(["mine"]);
+  });
+
+  it("deletes scenarios another client deleted on the server", () => {
+    const plan = planPull([], [{ id: "gone", deletedAt: FEB }], [scenario("gone", JAN)], new Set());
+    expect(plan.removeLocally).toEqual([{ id: "gone", deletedAt: FEB }]);
+    expect(plan.upload).toEqual([]);
+  });
+
+  it("uploads a scenario changed here after the server deleted it", () => {
+    const plan = planPull([], [{ id: "kept", deletedAt: JAN }], [scenario("kept", FEB)], new Set());
+    expect(plan.removeLocally).toEqual([]);
+    expect(plan.upload.map((s) => s.id)).toEqual(["kept"]);
+  });
+
+  it("leaves scenarios with a queued write to the push", () => {
+    const plan = planPull(
+      [scenario("queued", FEB)],
+      [{ id: "queuedGone", deletedAt: FEB }],
+      [scenario("queued", JAN), scenario("queuedGone", JAN)],
+      new Set(["queued", "queuedGone"])
+    );
+    expect(plan).toEqual({ download: [], removeLocally: [], upload: [] });
+  });
+});
@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { BroilerScenario } from "./types";
+import { ConflictError, DeletedError, OfflineError, isNewer } from "./persistence";
+import type { ScenarioBackend, ScenarioDeletion } from "./persistence";
+
+export const SYNC_QUEUE_KEY = "broiler-sync-queue";
+
+export type SyncStatus =
+  | "local" // kept on this device only (no server configured)
+  | "pending" // waiting to be sent, e.g. while offline
+  | "syncing"
+  | "synced"
+  | "conflict" // the server had a newer copy, which replaced ours
+  | "error";
+
+export interface SyncState {
+  status: SyncStatus;
+  message?: string;
+}
+
+export type SyncOperation =
+  | { kind: "save"; id: string; scenario: BroilerScenario }
+  | { kind: "delete"; id: string; deletedAt: string };
+
+export function loadSyncQueue(): SyncOperation[] {
+  try {
+    const raw = window.localStorage.getItem(SYNC_QUEUE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as SyncOperation[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSyncQueue(queue: SyncOperation[]) {
+  try {
+    window.localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+  } catch {
+    // the queue is rebuilt from the next save if it cannot be written
+  }
+}
+
+// Only the latest write per scenario needs to reach the server.
+function enqueue(operation: SyncOperation) {
+  writeSyncQueue([...loadSyncQueue().filter((op) => op.id !== operation.id), operation]);
+}
+
+const operationVersion = (op: SyncOperation) =>
+  op.kind === "delete" ? `delete ${op.deletedAt}` : op.scenario.updatedAt;
+
+// Drops a sent operation unless a newer write for the same id was queued
+// while it was in flight.
+function dequeue(sent: SyncOperation) {
+  writeSyncQueue(
+    loadSyncQueue().filter(
+      (op) => op.id !== sent.id || operationVersion(op) !== operationVersion(sent)
+    )
+  );
+}
+
+export interface PullPlan {
+  // Server copies that are new or newer than the ones on this device
+  download: BroilerScenario[];
+  // Scenarios deleted on the server after this device last changed them
+  removeLocally: ScenarioDeletion[];
+  // Scenarios the server has never seen
+  upload: BroilerScenario[];
+}
+
+/**
+ * Decides what a pull changes on this device. Scenarios with a queued write
+ * are left for the push to settle. Otherwise the later change wins, with a
+ * deletion counting as a change made at its `deletedAt`.
+ */
+export function planPull(
+  remoteList: BroilerScenario[],
+  deletions: ScenarioDeletion[],
+  localList: BroilerScenario[],
+  queued: Set<string>
+): PullPlan {
+  const plan: PullPlan = { download: [], removeLocally: [], upload: [] };
+  remoteList.forEach((remoteCopy) => {
+    if (queued.has(remoteCopy.id)) return;
+    const localCopy = localList.find((s) => s.id === remoteCopy.id);
+    if (!localCopy || isNewer(remoteCopy, localCopy)) plan.download.push(remoteCopy);
+  });
+  localList.forEach((scenario) => {
+    if (queued.has(scenario.id) || remoteList.some((r) => r.id === scenario.id)) return;
+    const deletion = deletions.find((d) => d.id === scenario.id);
+    if (deletion && Date.parse(deletion.deletedAt) >= Date.parse(scenario.updatedAt)) {
+      plan.removeLocally.push(deletion);
+    } else {
+      plan.upload.push(scenario);
+    }
+  });
+  return plan;
+}
+
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Keeps the on-device library in step with a remote backend. Writes are
+ * queued (and survive reloads) until the server accepts them; the queue is
+ * retried whenever the browser comes back online. When both sides changed a
+ * scenario, the copy with the later `updatedAt` wins; a scenario deleted on
+ * the server is deleted here unless it was changed here after the deletion.
+ */
+export function useScenarioSync(
+  local: ScenarioBackend,
+  remote: ScenarioBackend | null,
+  onLocalChange: (scenarios: BroilerScenario[]) => void
+) {
+  const [states, setStates] = useState<Record<string, SyncState>>(() => {
+    const initial: Record<string, SyncState> = {};
+    if (typeof window !== "undefined") {
+      loadSyncQueue().forEach((op) => {
+        initial[op.id] = { status: "pending" };
+      });
+    }
+    return initial;
+  });
+  const [serverError, setServerError] = useState<string | null>(null);
+  const flushing = useRef(false);
+  const flushAgain = useRef(false);
+  const onLocalChangeRef = useRef(onLocalChange);
+  onLocalChangeRef.current = onLocalChange;
+
+  const setState = useCallback((id: string, state: SyncState) => {
+    setStates((prev) => ({ ...prev, [id]: state }));
+  }, []);
+
+  const clearState = useCallback((id: string) => {
+    setStates((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  // Pulls newer server copies, drops scenarios deleted on the server and
+  // queues anything the server has never seen.
+  const pull = useCallback(async () => {
+    if (!remote) return;
+    const [remoteList, deletions, localList] = await Promise.all([
+      remote.list(),
+      remote.deletions(),
+      local.list()
+    ]);
+    const queued = new Set(loadSyncQueue().map((op) => op.id));
+    const plan = planPull(remoteList, deletions, localList, queued);
+    for (const remoteCopy of plan.download) {
+      await local.save(remoteCopy);
+    }
+    for (const deletion of plan.removeLocally) {
+      await local.remove(deletion.id, deletion.deletedAt);
+      clearState(deletion.id);
+    }
+    plan.upload.forEach((scenario) => enqueue({ kind: "save", id: scenario.id, scenario }));
+    remoteList
+      .filter((r) => !queued.has(r.id))
+      .forEach((r) => setState(r.id, { status: "synced" }));
+    if (plan.download.length > 0 || plan.removeLocally.length > 0) {
+      onLocalChangeRef.current(await local.list());
+    }
+  }, [local, remote, setState, clearState]);
+
+  const push = useCallback(async () => {
+    if (!remote) return;
+    for (const op of loadSyncQueue()) {
+      setState(op.id, { status: "syncing" });
+      try {
+        if (op.kind === "save") {
+          await remote.save(op.scenario);
+        } else {
+          await remote.remove(op.id, op.deletedAt);
+        }
+        dequeue(op);
+        setState(op.id, { status: "synced" });
+      } catch (error) {
+        if (!(error instanceof DeletedError || error instanceof ConflictError)) {
+          // Stop at the first failure so writes reach the server in order
+          loadSyncQueue().forEach((queued) =>
+            setState(queued.id, {
+              status: error instanceof OfflineError ? "pending" : "error",
+              message: describeError(error)
+            })
+          );
+          return;
+        }
+        // The server's answer is applied here before the write is dropped,
+        // so a failed local write leaves it queued for the next flush
+        try {
+          if (error instanceof DeletedError) {
+            await local.remove(op.id, error.deletion.deletedAt);
+          } else {
+            await local.save(error.current);
+          }
+        } catch (localError) {
+          setState(op.id, {
+            status: "error",
+            message: `The server's copy could not be applied on this device: ${describeError(
+              localError
+            )}`
+          });
+          continue;
+        }
+        dequeue(op);
+        onLocalChangeRef.current(await local.list());
+        if (error instanceof DeletedError) {
+          // Deleted on the server after this copy was saved
+          clearState(op.id);
+        } else {
+          setState(op.id, {
+            status: "conflict",
+            message: `The server had a newer copy from ${new Date(
+              error.current.updatedAt
+            ).toLocaleString()}; it replaced this one.`
+          });
+        }
+      }
+    }
+  }, [local, remote, setState, clearState]);
+
+  const flush = useCallback(async () => {
+    if (!remote) return;
+    // Writes queued while a flush is running are picked up by another pass
+    if (flushing.current) {
+      flushAgain.current = true;
+      return;
+    }
+    flushing.current = true;
+    try {
+      do {
+        flushAgain.current = false;
+        try {
+          await pull();
+          setServerError(null);
+        } catch (error) {
+          setServerError(
+            error instanceof OfflineError
+              ? null
+              : `Could not load scenarios from the server: ${describeError(error)}`
+          );
+        }
+        await push();
+      } while (flushAgain.current);
+    } finally {
+      flushing.current = false;
+    }
+  }, [remote, pull, push]);
+
+  useEffect(() => {
+    if (!remote) return undefined;
+    void flush();
+    const handleOnline = () => void flush();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [remote, flush]);
+
+  // Call after a scenario has been written to the on-device library
+  const queueSave = useCallback(
+    (scenario: BroilerScenario) => {
+      if (!remote) {
+        setState(scenario.id, { status: "local" });
+        return;
+      }
+      enqueue({ kind: "save", id: scenario.id, scenario });
+      setState(scenario.id, { status: "pending" });
+      void flush();
+    },
+    [remote, flush, setState]
+  );
+
+  const queueDelete = useCallback(
+    (id: string) => {
+      clearState(id);
+      if (!remote) return;
+      enqueue({ kind: "delete", id, deletedAt: new Date().toISOString() });
+      void flush();
+    },
+    [remote, flush, clearState]
+  );
+
+  const statusOf = useCallback(
+    (id: string): SyncState =>
+      states[id] ?? { status: remote ? "pending" : "local" },
+    [states, remote]
+  );
+
+  return { statusOf, queueSave, queueDelete, retry: flush, serverError };
+}
+
+export const syncStatusLabels: Record<SyncStatus, string> = {
+  local: "Saved on this device",
+  pending: "Waiting to sync",
+  syncing: "Syncing…",
+  synced: "Synced",
+  conflict: "Replaced by newer server copy",
+  error: "Sync failed"
+};
@@ -3,6 +3,13 @@ export type UnitsModeKey =
   | "kgPerYear_kgPerBird"
   | "meatTonsWithYield";
 
+export type TimeHorizonKey = "year" | "threeYears" | "customDays";
+
+export interface BroilerHorizon {
+  timeHorizon: TimeHorizonKey;
+  customDays?: number;
+}
+
 export interface BroilerInputs {
   sn1TargetBroilerMeat: number | null;
   sn2HarvestBirdAvgWeight: number | null;
@@ -12,35 +19,136 @@ export interface BroilerInputs {
   sn11NumberOfHouses: number | null;
   sn12HouseArea: number | null;
   yieldPercent: number | null;
+  // Parts of SN6, used instead of it when BroilerConfig.composeCycleTime is on:
+  // bird age at harvest, cleaning and disinfection, and empty days on top
+  growOutDays: number | null;
+  cleanoutDays: number | null;
+  downtimeDays: number | null;
 }
 
+// Body weight of the flock at one age on a growth curve
+export interface GrowthPoint {
+  ageDays: number;
+  weightKg: number;
+}
+
+// Weight-by-age table, a breed standard or one uploaded by the user. Ages and
+// weights both strictly increase.
+export interface GrowthCurve {
+  id: string;
+  name: string;
+  points: GrowthPoint[];
+}
+
+// Which side of the curve is derived: the grow-out age from SN2, or SN2 from
+// the grow-out age
+export type GrowthDerive = "age" | "weight";
+
 export interface BroilerConfig {
   unitsMode: UnitsModeKey;
   useYield: boolean;
   useFullCyclesOnly: boolean;
   useLeapYearCycles: boolean;
   mortalityAsPercent: boolean;
+  // SN6 is the sum of grow-out, cleanout and downtime days
+  composeCycleTime: boolean;
+  // Maximum live weight per m² of house floor; null skips the check
+  densityLimitKgPerM2: number | null;
+  // Links SN2 with the grow-out age while the cycle time is composed; null
+  // keeps both entered by hand
+  growthCurve: GrowthCurve | null;
+  growthDerive: GrowthDerive;
+}
+
+// One farm of the network a scenario is allocated to
+export interface PortfolioFarm {
+  id: string;
+  name: string;
+  houses: number | null;
+  // Floor area of each house, m²
+  houseArea: number | null;
+  // Birds placed per cycle when the farm is fully used
+  capacity: number | null;
+  // Share of cycles the farm can be stocked, e.g. 75 while it is refurbished
+  availabilityPercent: number | null;
+}
+
+// Snapshot of a scenario's assumptions taken each time it is saved
+export interface ScenarioRevision {
+  id: string;
+  savedAt: string;
+  note?: string;
+  timeHorizon: TimeHorizonKey;
+  customDays?: number;
+  inputs: BroilerInputs;
+  config: BroilerConfig;
 }
 
 export interface BroilerScenario {
   id: string;
   name: string;
   description?: string;
-  timeHorizon: "year" | "threeYears" | "customDays";
+  timeHorizon: TimeHorizonKey;
   customDays?: number;
   createdAt: string;
+  // Set on every save; newest copy wins when syncing with the server
+  updatedAt: string;
   inputs: BroilerInputs;
   config: BroilerConfig;
+  // Oldest first; the last entry matches the saved assumptions
+  revisions: ScenarioRevision[];
+  // Empty when every farm is assumed to be the standard SN10-SN12 farm
+  farms: PortfolioFarm[];
+}
+
+export type BroilerDiagnosticCode =
+  | "missingInput"
+  | "zeroDenominator"
+  | "invalidMortality"
+  | "missingYield"
+  | "invalidHorizon"
+  | "nonFiniteResult"
+  | "densityLimitExceeded"
+  | "outsideGrowthCurve";
+
+// "error" blanks outputs, "warning" means an input was adjusted or a limit
+// is exceeded, "info" only explains outputs that are blank because an input
+// is still empty.
+export type BroilerDiagnosticSeverity = "error" | "warning" | "info";
+
+export type BroilerResultSn = "sn3" | "sn5" | "sn7" | "sn8" | "sn9" | "sn13" | "sn14";
+
+export interface BroilerDiagnostic {
+  code: BroilerDiagnosticCode;
+  severity: BroilerDiagnosticSeverity;
+  inputs: (keyof BroilerInputs | "customDays")[];
+  outputs: BroilerResultSn[];
+  message: string;
 }
 
+// Birds, cycles and meat totals are reported over the planning horizon;
+// per-cycle values (SN8, SN9, SN14) are independent of its length.
 export interface BroilerResults {
+  horizonDays?: number;
+  // SN6 as used: entered, or composed from its parts
+  sn6CycleTimeDays?: number;
   sn3HarvestBirdsNumber?: number;
   sn5OverallPlacement?: number;
   sn7CyclesPerYear?: number;
+  // Share of the horizon each farm holds birds, from SN7 cycles of grow-out
+  stockedFraction?: number;
+  // Harvest point on the growth curve when it links SN2 and the grow-out age
+  growthPoint?: GrowthPoint;
   sn8HarvestPerCycle?: number;
   sn9PlacementPerCycle?: number;
   sn13Density?: number;
+  // SN13 as live weight at harvest (SN13 × SN2)
+  sn13DensityKgPerM2?: number;
   sn14NumberOfFarms?: number;
-  hasDivisionByZero: boolean;
+  // Largest SN10 that keeps the houses within the density limit, and the
+  // farm count SN9 needs at that capacity
+  maxCompliantFarmCapacity?: number;
+  compliantNumberOfFarms?: number;
+  diagnostics: BroilerDiagnostic[];
 }
 
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { BroilerScenario } from "./types";
+
+// Older steps are dropped beyond this many
+export const MAX_UNDO_STEPS = 100;
+
+// Edits to the same field closer together than this undo as one step, so a
+// typed number comes back in one go rather than a digit at a time.
+export const COALESCE_MS = 800;
+
+// What undo and redo restore. Ids, timestamps and revision history belong to
+// the saved copy and are never rolled back by an edit.
+type EditorSnapshot = Pick<
+  BroilerScenario,
+  "name" | "description" | "timeHorizon" | "customDays" | "inputs" | "config" | "farms"
+>;
+
+const snapshotOf = (s: BroilerScenario): EditorSnapshot => ({
+  name: s.name,
+  description: s.description,
+  timeHorizon: s.timeHorizon,
+  customDays: s.customDays,
+  inputs: s.inputs,
+  config: s.config,
+  farms: s.farms
+});
+
+interface EditorHistory {
+  present: BroilerScenario;
+  past: EditorSnapshot[];
+  future: EditorSnapshot[];
+}
+
+type ScenarioUpdate = BroilerScenario | ((prev: BroilerScenario) => BroilerScenario);
+
+const apply = (update: ScenarioUpdate, prev: BroilerScenario) =>
+  typeof update === "function" ? update(prev) : update;
+
+/**
+ * Scenario editor state with an undo/redo stack.
+ *   edit    - an undoable change; pass `coalesceKey` (e.g. the field name) to
+ *             merge rapid repeats into one step
+ *   replace - a change that is not an edit, e.g. saving; history is kept
+ *   reset   - loads a different scenario; history is cleared
+ */
+export function useUndoableScenario(initial: () => BroilerScenario) {
+  const [history, setHistory] = useState<EditorHistory>(() => ({
+    present: initial(),
+    past: [],
+    future: []
+  }));
+  const lastEdit = useRef<{ key: string; at: number } | null>(null);
+
+  const edit = useCallback((update: ScenarioUpdate, coalesceKey?: string) => {
+    // Decided outside the updater, which React may call twice
+    const now = Date.now();
+    const coalesce =
+      coalesceKey != null &&
+      lastEdit.current?.key === coalesceKey &&
+      now - lastEdit.current.at < COALESCE_MS;
+    lastEdit.current = coalesceKey != null ? { key: coalesceKey, at: now } : null;
+
+    setHistory((prev) => {
+      const present = apply(update, prev.present);
+      if (present === prev.present) return prev;
+      return {
+        present,
+        past:
+          coalesce && prev.past.length > 0
+            ? prev.past
+            : [...prev.past, snapshotOf(prev.present)].slice(-MAX_UNDO_STEPS),
+        future: []
+      };
+    });
+  }, []);
+
+  const replace = useCallback((update: ScenarioUpdate) => {
+    setHistory((prev) => ({ ...prev, present: apply(update, prev.present) }));
+  }, []);
+
+  const reset = useCallback((update: ScenarioUpdate) => {
+    lastEdit.current = null;
+    setHistory((prev) => {
+      const present = apply(update, prev.present);
+      return present === prev.present ? prev : { present, past: [], future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastEdit.current = null;
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        present: { ...prev.present, ...prev.past[prev.past.length - 1] },
+        past: prev.past.slice(0, -1),
+        future: [snapshotOf(prev.present), ...prev.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastEdit.current = null;
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        present: { ...prev.present, ...prev.future[0] },
+        past: [...prev.past, snapshotOf(prev.present)],
+        future: prev.future.slice(1)
+      };
+    });
+  }, []);
+
+  return {
+    scenario: history.present,
+    edit,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
+
+// Input types the browser keeps its own typing undo for
+const textInputTypes = ["text", "search", "url", "tel", "email", "password", "number"];
+
+// Free text such as the name or notes keeps the browser's typing undo.
+// Number fields (marked data-app-undo by NumberInput) write every change to
+// the scenario as it is typed, so the scenario undo is the one to use there.
+function isFreeText(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement) || "appUndo" in target.dataset) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement) return !target.readOnly && !target.disabled;
+  return (
+    target instanceof HTMLInputElement &&
+    textInputTypes.includes(target.type) &&
+    !target.readOnly &&
+    !target.disabled
+  );
+}
+
+// Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes; Cmd on macOS. Inside a free-text
+// field the keys are left to the browser, which undoes the typing there.
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isFreeText(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,469 @@
+import { checkGrowthPoints, derivedGrowthInput } from "./growth";
+import type {
+  BroilerConfig,
+  BroilerInputs,
+  BroilerScenario,
+  GrowthCurve,
+  GrowthDerive,
+  PortfolioFarm,
+  ScenarioRevision,
+  TimeHorizonKey,
+  UnitsModeKey
+} from "./types";
+
+export type ValidationErrors = Record<string, string>;
+
+export const fieldLabels: Record<string, string> = {
+  scenarioName: "Scenario Name",
+  customDays: "Custom Horizon",
+  sn1TargetBroilerMeat: "Target Broiler Meat",
+  sn2HarvestBirdAvgWeight: "Harvest Birds Average Weight",
+  sn4PlannedMortality: "Planned Mortality",
+  sn6CycleTimeDays: "Broiler Cycle Time",
+  sn10FarmCapacity: "Broiler Farm Capacity",
+  sn11NumberOfHouses: "Broiler No. of Houses",
+  sn12HouseArea: "Broiler House Area",
+  useYield: "Use Yield %",
+  yieldPercent: "Yield %",
+  growOutDays: "Grow-out Age at Harvest",
+  cleanoutDays: "Cleanout Days",
+  downtimeDays: "Downtime Buffer",
+  densityLimitKgPerM2: "Density Limit",
+  growthCurve: "Growth Curve",
+  farms: "Farm Portfolio"
+};
+
+// "Label: message" lines for showing errors outside the form.
+export function fieldErrorMessages(errors: ValidationErrors): string[] {
+  return Object.entries(errors).map(
+    ([field, message]) => `${fieldLabels[field] ?? field}: ${message}`
+  );
+}
+
+export interface NumberRange {
+  min?: number;
+  greaterThan?: number;
+  max?: number;
+  lessThan?: number;
+}
+
+export interface InputRule {
+  // Only validated when this returns true (defaults to always)
+  appliesWhen?: (scenario: BroilerScenario) => boolean;
+  // Must be filled in before the plan is complete
+  requiredWhen: (scenario: BroilerScenario) => boolean;
+  range: (config: BroilerConfig) => NumberRange;
+  rangeMessage: (config: BroilerConfig) => string;
+}
+
+const always = () => true;
+const never = () => false;
+const positive = () => ({ greaterThan: 0 });
+const positiveMessage = () => "Value must be greater than zero.";
+const nonNegative = () => ({ min: 0 });
+const nonNegativeMessage = () => "Value must be zero or more.";
+const composed = (s: BroilerScenario) => s.config.composeCycleTime;
+const notComposed = (s: BroilerScenario) => !s.config.composeCycleTime;
+// Entered by hand unless a linked growth curve reads it from the other input
+const notDerived = (key: keyof BroilerInputs) => (s: BroilerScenario) =>
+  derivedGrowthInput(s.config) !== key;
+
+// The one place that says what a valid broiler input is. Used by the form,
+// by imports, when reading stored scenarios and by computeBroilerResults.
+export const inputSchema: Record<keyof BroilerInputs, InputRule> = {
+  sn1TargetBroilerMeat: {
+    requiredWhen: always,
+    range: positive,
+    rangeMessage: positiveMessage
+  },
+  sn2HarvestBirdAvgWeight: {
+    appliesWhen: notDerived("sn2HarvestBirdAvgWeight"),
+    requiredWhen: notDerived("sn2HarvestBirdAvgWeight"),
+    range: positive,
+    rangeMessage: positiveMessage
+  },
+  sn4PlannedMortality: {
+    requiredWhen: always,
+    range: (config) => ({ min: 0, lessThan: config.mortalityAsPercent ? 100 : 1 }),
+    rangeMessage: (config) =>
+      config.mortalityAsPercent
+        ? "Mortality must be between 0 and below 100 when using percent mode."
+        : "Mortality must be between 0 and below 1 when using fraction mode."
+  },
+  sn6CycleTimeDays: {
+    appliesWhen: notComposed,
+    requiredWhen: notComposed,
+    range: positive,
+    rangeMessage: positiveMessage
+  },
+  sn10FarmCapacity: {
+    requiredWhen: always,
+    range: positive,
+    rangeMessage: positiveMessage
+  },
+  sn11NumberOfHouses: {
+    requiredWhen: always,
+    range: positive,
+    rangeMessage: positiveMessage
+  },
+  sn12HouseArea: {
+    requiredWhen: always,
+    range: positive,
+    rangeMessage: positiveMessage
+  },
+  yieldPercent: {
+    appliesWhen: (s) => s.config.useYield || s.config.unitsMode === "meatTonsWithYield",
+    requiredWhen: (s) => s.config.useYield || s.config.unitsMode === "meatTonsWithYield",
+    range: () => ({ greaterThan: 0, max: 100 }),
+    rangeMessage: () => "Yield% must be between 0 and 100."
+  },
+  growOutDays: {
+    appliesWhen: (s) => composed(s) && notDerived("growOutDays")(s),
+    requiredWhen: (s) => composed(s) && notDerived("growOutDays")(s),
+    range: positive,
+    rangeMessage: positiveMessage
+  },
+  cleanoutDays: {
+    appliesWhen: composed,
+    requiredWhen: composed,
+    range: nonNegative,
+    rangeMessage: nonNegativeMessage
+  },
+  downtimeDays: {
+    appliesWhen: composed,
+    requiredWhen: never,
+    range: nonNegative,
+    rangeMessage: nonNegativeMessage
+  }
+};
+
+export const unitsModeKeys: UnitsModeKey[] = [
+  "tonsPerYear_kgPerBird",
+  "kgPerYear_kgPerBird",
+  "meatTonsWithYield"
+];
+
+export const timeHorizonKeys: TimeHorizonKey[] = ["year", "threeYears", "customDays"];
+
+export const growthDerives: GrowthDerive[] = ["age", "weight"];
+
+export const inputKeys = Object.keys(inputSchema) as (keyof BroilerInputs)[];
+
+const configFlags = [
+  "useYield",
+  "useFullCyclesOnly",
+  "useLeapYearCycles",
+  "mortalityAsPercent",
+  "composeCycleTime"
+] as const;
+
+export function inRange(value: number, range: NumberRange): boolean {
+  return (
+    (range.min == null || value >= range.min) &&
+    (range.greaterThan == null || value > range.greaterThan) &&
+    (range.max == null || value <= range.max) &&
+    (range.lessThan == null || value < range.lessThan)
+  );
+}
+
+export function validateInput(
+  key: keyof BroilerInputs,
+  scenario: BroilerScenario
+): string | undefined {
+  const rule = inputSchema[key];
+  if (rule.appliesWhen && !rule.appliesWhen(scenario)) return undefined;
+  const value = scenario.inputs[key];
+  if (value == null) return undefined;
+  if (!Number.isFinite(value) || !inRange(value, rule.range(scenario.config))) {
+    return rule.rangeMessage(scenario.config);
+  }
+  return undefined;
+}
+
+// Checks what has been entered so far; empty inputs are allowed.
+export function validateScenario(scenario: BroilerScenario): ValidationErrors {
+  const errors: ValidationErrors = {};
+
+  if (!scenario.name.trim()) {
+    errors.scenarioName = "Scenario name is required.";
+  }
+
+  if (
+    scenario.timeHorizon === "customDays" &&
+    (scenario.customDays == null || !(scenario.customDays > 0))
+  ) {
+    errors.customDays = "Custom horizon must be a positive number of days.";
+  }
+
+  inputKeys.forEach((key) => {
+    const message = validateInput(key, scenario);
+    if (message) errors[key] = message;
+  });
+
+  const densityLimit = scenario.config.densityLimitKgPerM2;
+  if (densityLimit != null && !(Number.isFinite(densityLimit) && densityLimit > 0)) {
+    errors.densityLimitKgPerM2 = "Density limit must be greater than zero.";
+  }
+
+  const curve = scenario.config.growthCurve;
+  const curveIssue = curve && checkGrowthPoints(curve.points);
+  if (curveIssue) errors.growthCurve = curveIssue;
+
+  const farmIssue = scenario.farms
+    .map((farm) => {
+      const farmName = farm.name.trim() || "Unnamed farm";
+      const notPositive = (["houses", "houseArea", "capacity"] as const).some(
+        (key) => farm[key] != null && !((farm[key] as number) > 0)
+      );
+      if (notPositive) {
+        return `${farmName}: houses, area and capacity must be greater than zero.`;
+      }
+      const availability = farm.availabilityPercent;
+      if (availability != null && !inRange(availability, { min: 0, max: 100 })) {
+        return `${farmName}: availability must be between 0 and 100%.`;
+      }
+      return undefined;
+    })
+    .find(Boolean);
+  if (farmIssue) errors.farms = farmIssue;
+
+  return errors;
+}
+
+// Same as validateScenario, but every required input must also be filled in.
+export function validateCompleteScenario(
+  scenario: BroilerScenario
+): ValidationErrors {
+  const errors = validateScenario(scenario);
+  inputKeys.forEach((key) => {
+    if (
+      scenario.inputs[key] == null &&
+      !errors[key] &&
+      inputSchema[key].requiredWhen(scenario)
+    ) {
+      errors[key] = "Value is required.";
+    }
+  });
+  if (scenario.config.unitsMode === "meatTonsWithYield" && !scenario.config.useYield) {
+    errors.useYield = "Enable Yield % when SN1 is meat/carcass tons.";
+  }
+  return errors;
+}
+
+export interface ParsedScenario {
+  // Undefined when the data does not have the shape of a scenario at all
+  scenario?: BroilerScenario;
+  errors: ValidationErrors;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// A copy of a stored growth curve, or null when it does not have the shape of
+// one. Whether the points make a usable curve is left to validateScenario.
+function parseGrowthCurve(raw: unknown): GrowthCurve | null {
+  if (
+    !isRecord(raw) ||
+    typeof raw.id !== "string" ||
+    typeof raw.name !== "string" ||
+    !Array.isArray(raw.points) ||
+    !raw.points.every(
+      (p) => isRecord(p) && typeof p.ageDays === "number" && typeof p.weightKg === "number"
+    )
+  ) {
+    return null;
+  }
+  return {
+    id: raw.id,
+    name: raw.name,
+    points: (raw.points as GrowthCurve["points"]).map(({ ageDays, weightKg }) => ({
+      ageDays,
+      weightKg
+    }))
+  };
+}
+
+type ScenarioAssumptions = Pick<
+  BroilerScenario,
+  "timeHorizon" | "customDays" | "inputs" | "config"
+>;
+
+// Horizon, inputs and config of a scenario or revision. Problems are added
+// to `errors`; the returned values are only meaningful when none were.
+function parseAssumptions(
+  raw: Record<string, unknown>,
+  errors: ValidationErrors
+): ScenarioAssumptions {
+  const timeHorizon = (raw.timeHorizon ?? "year") as TimeHorizonKey;
+  if (!timeHorizonKeys.includes(timeHorizon)) {
+    errors.timeHorizon = `Unknown time horizon "${String(raw.timeHorizon)}".`;
+  }
+  const customDays = raw.customDays;
+  if (customDays != null && typeof customDays !== "number") {
+    errors.customDays = "Custom horizon must be a number of days.";
+  }
+
+  const rawInputs = isRecord(raw.inputs) ? raw.inputs : null;
+  if (!rawInputs) errors.inputs = "Inputs are missing.";
+  const inputs = {} as BroilerInputs;
+  inputKeys.forEach((key) => {
+    const value = rawInputs?.[key];
+    if (value == null) {
+      inputs[key] = null;
+    } else if (typeof value === "number") {
+      inputs[key] = value;
+    } else {
+      errors[key] = "Value must be a number.";
+    }
+  });
+
+  const rawConfig = isRecord(raw.config) ? raw.config : null;
+  if (!rawConfig) errors.config = "Assumptions are missing.";
+  const unitsMode = rawConfig?.unitsMode as UnitsModeKey;
+  if (rawConfig && !unitsModeKeys.includes(unitsMode)) {
+    errors.unitsMode = `Unknown units mode "${String(rawConfig.unitsMode)}".`;
+  }
+  const config = { unitsMode } as BroilerConfig;
+  configFlags.forEach((key) => {
+    const value = rawConfig?.[key];
+    if (typeof value === "boolean") {
+      config[key] = value;
+    } else if (rawConfig) {
+      errors[key] = "Setting must be on or off.";
+    }
+  });
+  const densityLimit = rawConfig?.densityLimitKgPerM2;
+  if (densityLimit == null || typeof densityLimit === "number") {
+    config.densityLimitKgPerM2 = densityLimit ?? null;
+  } else {
+    errors.densityLimitKgPerM2 = "Density limit must be a number of kg/m².";
+  }
+  const growthCurve = rawConfig?.growthCurve;
+  config.growthCurve = growthCurve == null ? null : parseGrowthCurve(growthCurve);
+  if (growthCurve != null && !config.growthCurve) {
+    errors.growthCurve = "Growth curve must be a named list of ages and weights.";
+  }
+  const growthDerive = rawConfig?.growthDerive;
+  if (growthDerives.includes(growthDerive as GrowthDerive)) {
+    config.growthDerive = growthDerive as GrowthDerive;
+  } else if (rawConfig) {
+    errors.growthDerive = `Unknown growth curve link "${String(growthDerive)}".`;
+  }
+
+  return {
+    timeHorizon,
+    customDays: customDays as number | undefined,
+    inputs,
+    config
+  };
+}
+
+// Revisions that do not parse are dropped rather than rejecting the scenario.
+function parseRevisions(raw: unknown[]): ScenarioRevision[] {
+  return raw.flatMap((entry) => {
+    if (!isRecord(entry)) return [];
+    const errors: ValidationErrors = {};
+    const assumptions = parseAssumptions(entry, errors);
+    if (
+      Object.keys(errors).length > 0 ||
+      typeof entry.id !== "string" ||
+      typeof entry.savedAt !== "string"
+    ) {
+      return [];
+    }
+    return [
+      {
+        id: entry.id,
+        savedAt: entry.savedAt,
+        note: typeof entry.note === "string" ? entry.note : undefined,
+        ...assumptions
+      }
+    ];
+  });
+}
+
+const farmNumbers = ["houses", "houseArea", "capacity", "availabilityPercent"] as const;
+
+// Unlike revisions, farms were entered by hand, so one that does not parse
+// rejects the scenario instead of disappearing.
+function parseFarms(raw: unknown, errors: ValidationErrors): PortfolioFarm[] {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) {
+    errors.farms = "Farm portfolio must be a list.";
+    return [];
+  }
+  const farms: PortfolioFarm[] = [];
+  raw.forEach((entry, index) => {
+    const valid =
+      isRecord(entry) &&
+      typeof entry.id === "string" &&
+      typeof entry.name === "string" &&
+      farmNumbers.every((key) => entry[key] == null || typeof entry[key] === "number");
+    if (!valid) {
+      errors.farms ??= `Farm ${index + 1} is not a valid farm.`;
+      return;
+    }
+    farms.push({
+      id: entry.id as string,
+      name: entry.name as string,
+      houses: (entry.houses as number | undefined) ?? null,
+      houseArea: (entry.houseArea as number | undefined) ?? null,
+      capacity: (entry.capacity as number | undefined) ?? null,
+      availabilityPercent: (entry.availabilityPercent as number | undefined) ?? null
+    });
+  });
+  return farms;
+}
+
+/**
+ * Checks untrusted data (stored JSON, imported files) against the scenario
+ * shape. Missing inputs become null; anything of the wrong type is reported
+ * under its field key and leaves `scenario` undefined. Range problems are
+ * reported the same way as in the form but do not reject the scenario.
+ */
+export function parseScenario(raw: unknown): ParsedScenario {
+  const errors: ValidationErrors = {};
+  if (!isRecord(raw)) {
+    return { errors: { scenario: "Scenario must be an object." } };
+  }
+
+  const text = (
+    key: string,
+    errorKey: string,
+    message: string,
+    optional = false
+  ): string | undefined => {
+    const value = raw[key];
+    if (typeof value === "string" && (optional || value.trim())) return value;
+    if (optional && value == null) return undefined;
+    errors[errorKey] = message;
+    return undefined;
+  };
+
+  const id = text("id", "id", "Scenario id is missing.");
+  const name = text("name", "scenarioName", "Scenario name is required.");
+  const description = text("description", "description", "Description must be text.", true);
+  const createdAt = text("createdAt", "createdAt", "Created date is missing.");
+  const updatedAt = text("updatedAt", "updatedAt", "Updated date is missing.");
+
+  const { timeHorizon, customDays, inputs, config } = parseAssumptions(raw, errors);
+  const revisions = Array.isArray(raw.revisions) ? parseRevisions(raw.revisions) : [];
+  const farms = parseFarms(raw.farms, errors);
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  const scenario: BroilerScenario = {
+    id: id as string,
+    name: name as string,
+    description,
+    timeHorizon,
+    customDays,
+    createdAt: createdAt as string,
+    updatedAt: updatedAt as string,
+    inputs,
+    config,
+    revisions,
+    farms
+  };
+  return { scenario, errors: validateScenario(scenario) };
+}
@@ -0,0 +1,90 @@
+import { useCallback } from "react";
+import { navigate, useRoute } from "../../router";
+import type { ValidationErrors } from "./validation";
+
+export type WizardStepKey = "broiler" | "compare" | "assumptions" | "save";
+
+export interface WizardStep {
+  key: WizardStepKey;
+  label: string;
+  subtitle: string;
+  // Validation error keys that must be clear before leaving this step
+  fields: string[];
+}
+
+export const wizardSteps: WizardStep[] = [
+  {
+    key: "broiler",
+    label: "Broiler",
+    subtitle: "Configure",
+    fields: [
+      "scenarioName",
+      "customDays",
+      "sn1TargetBroilerMeat",
+      "sn2HarvestBirdAvgWeight",
+      "sn4PlannedMortality",
+      "sn6CycleTimeDays",
+      "growOutDays",
+      "cleanoutDays",
+      "downtimeDays",
+      "sn10FarmCapacity",
+      "sn11NumberOfHouses",
+      "sn12HouseArea",
+      "densityLimitKgPerM2",
+      "growthCurve",
+      "farms"
+    ]
+  },
+  { key: "compare", label: "Select Scenario", subtitle: "Compare", fields: [] },
+  {
+    key: "assumptions",
+    label: "Assumptions / Market",
+    subtitle: "Configure",
+    fields: ["useYield", "yieldPercent"]
+  },
+  { key: "save", label: "Save Plan", subtitle: "Save or discard", fields: [] }
+];
+
+// Errors that keep the user from moving past the step at `index`.
+export function blockingErrors(
+  index: number,
+  errors: ValidationErrors
+): { field: string; message: string }[] {
+  return wizardSteps
+    .slice(0, index + 1)
+    .flatMap((step) => step.fields)
+    .filter((field) => errors[field])
+    .map((field) => ({ field, message: errors[field] }));
+}
+
+// A step is reachable once every step before it is complete.
+export function enabledSteps(errors: ValidationErrors): boolean[] {
+  return wizardSteps.map(
+    (_, index) => index === 0 || blockingErrors(index - 1, errors).length === 0
+  );
+}
+
+function parseStep(value: string | null): WizardStepKey {
+  return wizardSteps.some((s) => s.key === value)
+    ? (value as WizardStepKey)
+    : "broiler";
+}
+
+// The active step lives in the route's `step` query parameter so that any
+// step can be linked to directly.
+export function useWizardStep(): [
+  WizardStepKey,
+  (key: WizardStepKey, options?: { replace?: boolean }) => void
+] {
+  const route = useRoute();
+  const step = parseStep(route.query.get("step"));
+
+  const setStep = useCallback(
+    (key: WizardStepKey, options: { replace?: boolean } = {}) => {
+      navigate(route.path, { step: key }, options);
+    },
+    [route.path]
+  );
+
+  return [step, setStep];
+}
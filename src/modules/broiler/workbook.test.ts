@@ -0,0 +1,139 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { buildFarmScenarios, computeBroilerResults, expandFarmScenarioRow } from "./calculations";
+import type { ScenarioParameterKey } from "./calculations";
+import { createWorkbookEvaluator } from "./fixtures/formulas";
+import golden from "./fixtures/calculator-sheet1.json";
+import { sheetConfig, sheetInputs, sheetScenario } from "./fixtures/scenario";
+import { growthCurvePresets } from "./growth";
+import type { BroilerConfig, BroilerHorizon, BroilerInputs, BroilerScenario } from "./types";
+import { buildScenarioWorkbook, importScenarioFromWorkbook } from "./workbook";
+
+interface GoldenCase {
+  name: string;
+  inputs?: Partial<BroilerInputs>;
+  config?: Partial<BroilerConfig>;
+  horizon?: BroilerHorizon;
+  diagnostics?: string[];
+}
+
+// Through the file format, as a download opened again would be. Stubs keep
+// the formula cells that are written without a cached value.
+const roundTrip = (scenario: BroilerScenario) =>
+  XLSX.read(XLSX.write(buildScenarioWorkbook(scenario), { type: "array", bookType: "xlsx" }), {
+    type: "array",
+    sheetStubs: true
+  });
+
+const fromCase = (fixture: GoldenCase): BroilerScenario =>
+  sheetScenario({
+    name: fixture.name,
+    timeHorizon: fixture.horizon?.timeHorizon ?? "year",
+    customDays: fixture.horizon?.customDays,
+    inputs: { ...sheetInputs, ...fixture.inputs },
+    config: { ...sheetConfig, ...fixture.config }
+  });
+
+const growthLinked = sheetScenario({
+  name: "Growth-linked",
+  inputs: {
+    ...sheetInputs,
+    sn2HarvestBirdAvgWeight: 1.8,
+    growOutDays: 35,
+    cleanoutDays: 14,
+    downtimeDays: 4
+  },
+  config: {
+    ...sheetConfig,
+    composeCycleTime: true,
+    growthCurve: growthCurvePresets[0],
+    growthDerive: "weight"
+  }
+});
+
+// Cases the model calculates without errors; the sheet has no diagnostics
+const calculable = (golden.cases as GoldenCase[])
+  .filter((fixture) => !fixture.diagnostics)
+  .map(fromCase);
+
+describe("buildScenarioWorkbook", () => {
+  it.each([...calculable, growthLinked].map((s) => [s.name, s] as const))(
+    "recalculates to the app's results: %s",
+    (_name, scenario) => {
+      const workbook = roundTrip(scenario);
+      const value = createWorkbookEvaluator(workbook);
+      const horizon = { timeHorizon: scenario.timeHorizon, customDays: scenario.customDays };
+      const results = computeBroilerResults(scenario.inputs, scenario.config, horizon);
+      const rows = buildFarmScenarios(scenario.inputs, scenario.config, results);
+      const columns = rows.map((row) =>
+        expandFarmScenarioRow(row, scenario.inputs, scenario.config, results)
+      );
+
+      const sheet = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.Results, { header: 1 });
+      sheet.slice(1).forEach((row, index) => {
+        const key = String(row[0]).toLowerCase() as ScenarioParameterKey;
+        columns.forEach((expected, column) => {
+          const address = XLSX.utils.encode_cell({ r: index + 1, c: 2 + column });
+          const actual = value("Results", address);
+          if (expected[key] == null) {
+            expect(actual, `${key} column ${column}`).toBeNull();
+          } else {
+            expect(actual, `${key} column ${column}`).toBeCloseTo(expected[key] as number, 6);
+          }
+        });
+      });
+    }
+  );
+
+  it("writes the SN2 read from the growth curve", () => {
+    const value = createWorkbookEvaluator(roundTrip(growthLinked));
+    expect(value("Results", "C3")).toBeCloseTo(2.333, 6);
+  });
+});
+
+describe("importScenarioFromWorkbook", () => {
+  // Every setting differs from the base, so each one must come from the file
+  const base = sheetScenario({
+    id: "imported",
+    name: "",
+    inputs: { ...sheetInputs, sn1TargetBroilerMeat: 1, sn10FarmCapacity: 1 },
+    config: {
+      ...sheetConfig,
+      unitsMode: "kgPerYear_kgPerBird",
+      useYield: true,
+      useFullCyclesOnly: true,
+      useLeapYearCycles: true,
+      mortalityAsPercent: false,
+      composeCycleTime: true,
+      densityLimitKgPerM2: 30
+    }
+  });
+
+  it.each(calculable.map((s) => [s.name, s] as const))(
+    "reads back the exported inputs and settings: %s",
+    (_name, scenario) => {
+      const data = XLSX.write(buildScenarioWorkbook(scenario), { type: "array", bookType: "xlsx" });
+      const { scenario: imported, warnings } = importScenarioFromWorkbook(data, "File", base);
+
+      expect(warnings).toEqual([]);
+      expect(imported.inputs).toEqual(scenario.inputs);
+      expect(imported.config).toEqual(scenario.config);
+      expect(imported).toMatchObject({
+        id: "imported",
+        name: scenario.name,
+        timeHorizon: scenario.timeHorizon,
+        customDays: scenario.customDays
+      });
+    }
+  );
+
+  it("reads back SN2 as the growth curve gave it", () => {
+    const data = XLSX.write(buildScenarioWorkbook(growthLinked), {
+      type: "array",
+      bookType: "xlsx"
+    });
+    const { scenario } = importScenarioFromWorkbook(data, "File", base);
+    expect(scenario.inputs.sn2HarvestBirdAvgWeight).toBeCloseTo(2.333, 6);
+    expect(scenario.inputs.growOutDays).toBe(35);
+  });
+});
@@ -0,0 +1,413 @@
+import * as XLSX from "xlsx";
+import {
+  buildFarmScenarios,
+  computeBroilerResults,
+  expandFarmScenarioRow,
+  inputIsEntered
+} from "./calculations";
+import type { ScenarioParameterKey } from "./calculations";
+import { applyGrowthCurve, describeGrowthLink } from "./growth";
+import {
+  fieldErrorMessages,
+  inputKeys,
+  timeHorizonKeys,
+  unitsModeKeys,
+  validateScenario
+} from "./validation";
+import type {
+  BroilerConfig,
+  BroilerInputs,
+  BroilerScenario,
+  TimeHorizonKey,
+  UnitsModeKey
+} from "./types";
+
+const INPUTS_SHEET = "Inputs";
+const RESULTS_SHEET = "Results";
+
+type InputsRowKey =
+  | keyof BroilerInputs
+  | keyof BroilerConfig
+  | "timeHorizon"
+  | "customDays"
+  | "name"
+  | "description"
+  | "mortalityFraction"
+  | "daysPerYear"
+  | "horizonDays"
+  | "horizonYears"
+  | "cycleTimeDays"
+  | "liveKgPerSn1Unit";
+
+interface InputsRow {
+  sn?: string;
+  label: string;
+  key?: InputsRowKey;
+  value?: string | number | boolean | null;
+  uom?: string;
+  formula?: (ref: (key: InputsRowKey) => string) => string;
+}
+
+function buildInputsRows(scenario: BroilerScenario): InputsRow[] {
+  // The value read from a growth curve is written out, so the sheet
+  // recalculates without the curve
+  const i = applyGrowthCurve(scenario.inputs, scenario.config).inputs;
+  const c = scenario.config;
+  return [
+    { sn: "SN1", label: "Broiler Meat", key: "sn1TargetBroilerMeat", value: i.sn1TargetBroilerMeat, uom: c.unitsMode === "kgPerYear_kgPerBird" ? "kg/year" : "tons/year" },
+    { sn: "SN2", label: "Broiler Avg weight kg", key: "sn2HarvestBirdAvgWeight", value: i.sn2HarvestBirdAvgWeight, uom: "kg/bird" },
+    { sn: "SN4", label: "Broiler Mort%", key: "sn4PlannedMortality", value: i.sn4PlannedMortality, uom: c.mortalityAsPercent ? "%" : "fraction" },
+    { sn: "SN6", label: "Broiler Cycle Time", key: "sn6CycleTimeDays", value: i.sn6CycleTimeDays, uom: "days" },
+    { label: "Grow-out age at harvest", key: "growOutDays", value: i.growOutDays, uom: "days" },
+    { label: "Cleanout days", key: "cleanoutDays", value: i.cleanoutDays, uom: "days" },
+    { label: "Downtime buffer", key: "downtimeDays", value: i.downtimeDays, uom: "days" },
+    { sn: "SN10", label: "Broiler Farm Capacity", key: "sn10FarmCapacity", value: i.sn10FarmCapacity, uom: "birds/cycle" },
+    { sn: "SN11", label: "Broiler No. of Houses", key: "sn11NumberOfHouses", value: i.sn11NumberOfHouses, uom: "houses" },
+    { sn: "SN12", label: "Broiler House Area", key: "sn12HouseArea", value: i.sn12HouseArea, uom: "m²" },
+    { label: "Yield %", key: "yieldPercent", value: i.yieldPercent, uom: "%" },
+    { label: "" },
+    { label: "Setting" },
+    { label: "Units mode", key: "unitsMode", value: c.unitsMode },
+    { label: "Use Yield %", key: "useYield", value: c.useYield },
+    { label: "Full Cycles Only", key: "useFullCyclesOnly", value: c.useFullCyclesOnly },
+    { label: "Use 365.25 days/year", key: "useLeapYearCycles", value: c.useLeapYearCycles },
+    { label: "Mortality entered as percent", key: "mortalityAsPercent", value: c.mortalityAsPercent },
+    { label: "Cycle time from parts", key: "composeCycleTime", value: c.composeCycleTime },
+    { label: "Density limit", key: "densityLimitKgPerM2", value: c.densityLimitKgPerM2, uom: "kg/m²" },
+    { label: "Growth curve", value: describeGrowthLink(c) },
+    { label: "Time horizon", key: "timeHorizon", value: scenario.timeHorizon },
+    { label: "Custom horizon", key: "customDays", value: scenario.customDays ?? null, uom: "days" },
+    { label: "Scenario name", key: "name", value: scenario.name },
+    { label: "Description", key: "description", value: scenario.description ?? "" },
+    { label: "" },
+    { label: "Derived (formulas)" },
+    { label: "Mortality fraction", key: "mortalityFraction", formula: (r) => `IF(${r("mortalityAsPercent")},${r("sn4PlannedMortality")}/100,${r("sn4PlannedMortality")})` },
+    { label: "Days per year", key: "daysPerYear", uom: "days", formula: (r) => `IF(${r("useLeapYearCycles")},365.25,365)` },
+    { label: "Horizon length", key: "horizonDays", uom: "days", formula: (r) => `IF(${r("timeHorizon")}="year",${r("daysPerYear")},IF(${r("timeHorizon")}="threeYears",3*${r("daysPerYear")},${r("customDays")}))` },
+    { label: "Horizon length", key: "horizonYears", uom: "years", formula: (r) => `${r("horizonDays")}/${r("daysPerYear")}` },
+    { label: "Cycle time used", key: "cycleTimeDays", uom: "days", formula: (r) => `IF(${r("composeCycleTime")},${r("growOutDays")}+${r("cleanoutDays")}+N(${r("downtimeDays")}),${r("sn6CycleTimeDays")})` },
+    {
+      label: "Live weight kg per SN1 unit",
+      key: "liveKgPerSn1Unit",
+      formula: (r) =>
+        `IF(${r("unitsMode")}="kgPerYear_kgPerBird",1,IF(${r("unitsMode")}="tonsPerYear_kgPerBird",1000,IF(${r("useYield")},1000*100/${r("yieldPercent")},NA())))`
+    }
+  ];
+}
+
+type ResultsColumn = "base" | "rounded" | "floored";
+
+const resultsRows: { key: ScenarioParameterKey; sn: string; label: string }[] = [
+  { key: "sn1", sn: "SN1", label: "Target Broiler Meat" },
+  { key: "sn2", sn: "SN2", label: "Harvest Birds Average Weight" },
+  { key: "sn4", sn: "SN4", label: "Planned Mortality" },
+  { key: "sn6", sn: "SN6", label: "Broiler Cycle Time" },
+  { key: "sn10", sn: "SN10", label: "Broiler Farm Capacity" },
+  { key: "sn11", sn: "SN11", label: "Broiler No. of Houses" },
+  { key: "sn12", sn: "SN12", label: "Broiler House Area" },
+  { key: "sn3", sn: "SN3", label: "Harvest Birds Number" },
+  { key: "sn5", sn: "SN5", label: "Overall Broiler Placement" },
+  { key: "sn7", sn: "SN7", label: "Broiler Cycles In Horizon" },
+  { key: "sn8", sn: "SN8", label: "Broiler Harvest Per Cycle" },
+  { key: "sn9", sn: "SN9", label: "Broiler Placement Per Cycle" },
+  { key: "sn13", sn: "SN13", label: "Broiler Density" },
+  { key: "sn14", sn: "SN14", label: "Broiler No. of Farms" }
+];
+
+// Excel formula for one SN cell, mirroring computeBroilerResults for the base
+// column and buildFarmScenarios for the rounded and floored columns.
+function resultsFormula(
+  key: ScenarioParameterKey,
+  column: ResultsColumn,
+  input: (key: InputsRowKey) => string,
+  cell: (key: ScenarioParameterKey, column: ResultsColumn) => string
+): string {
+  const survival = `(1-${input("mortalityFraction")})`;
+  switch (key) {
+    case "sn1":
+      return `${cell("sn3", column)}*${input("sn2HarvestBirdAvgWeight")}/${input("liveKgPerSn1Unit")}`;
+    case "sn2":
+      return input("sn2HarvestBirdAvgWeight");
+    case "sn4":
+      return input("sn4PlannedMortality");
+    case "sn6":
+      return input("cycleTimeDays");
+    case "sn10":
+      return input("sn10FarmCapacity");
+    case "sn11":
+      return input("sn11NumberOfHouses");
+    case "sn12":
+      return input("sn12HouseArea");
+    case "sn3":
+      return column === "base"
+        ? `${input("sn1TargetBroilerMeat")}*${input("liveKgPerSn1Unit")}/${input("sn2HarvestBirdAvgWeight")}*${input("horizonYears")}`
+        : `${cell("sn8", column)}*${cell("sn7", column)}`;
+    case "sn5":
+      return `${cell("sn3", column)}/${survival}`;
+    case "sn7":
+      return `IF(${input("useFullCyclesOnly")},ROUNDDOWN(${input("horizonDays")}/${input("cycleTimeDays")},0),${input("horizonDays")}/${input("cycleTimeDays")})`;
+    case "sn8":
+      return column === "base"
+        ? `${cell("sn3", column)}/${cell("sn7", column)}`
+        : `${cell("sn9", column)}*${survival}`;
+    case "sn9":
+      return column === "base"
+        ? `${cell("sn8", column)}/${survival}`
+        : `${cell("sn14", column)}*${input("sn10FarmCapacity")}`;
+    case "sn13":
+      return `${input("sn10FarmCapacity")}/(${input("sn11NumberOfHouses")}*${input("sn12HouseArea")})`;
+    case "sn14":
+      if (column === "rounded") return `ROUNDUP(${cell("sn14", "base")},0)`;
+      if (column === "floored") return `ROUNDDOWN(${cell("sn14", "base")},0)`;
+      return `${cell("sn9", column)}/${input("sn10FarmCapacity")}`;
+    default:
+      return "NA()";
+  }
+}
+
+function toCell(value: string | number | boolean | null | undefined): XLSX.CellObject {
+  if (typeof value === "number" && Number.isFinite(value)) return { t: "n", v: value };
+  if (typeof value === "boolean") return { t: "b", v: value };
+  if (typeof value === "string") return { t: "s", v: value };
+  return { t: "z" };
+}
+
+export function buildScenarioWorkbook(scenario: BroilerScenario): XLSX.WorkBook {
+  const horizon = { timeHorizon: scenario.timeHorizon, customDays: scenario.customDays };
+  const results = computeBroilerResults(scenario.inputs, scenario.config, horizon);
+  const farmRows = buildFarmScenarios(scenario.inputs, scenario.config, results);
+  const cached: Record<ResultsColumn, Record<ScenarioParameterKey, number | null>> = {
+    base: expandFarmScenarioRow(farmRows[0], scenario.inputs, scenario.config, results),
+    rounded: expandFarmScenarioRow(farmRows[1], scenario.inputs, scenario.config, results),
+    floored: expandFarmScenarioRow(farmRows[2], scenario.inputs, scenario.config, results)
+  };
+
+  // Inputs sheet: SN | Parameter | Value | UOM | Key
+  const inputsRows = buildInputsRows(scenario);
+  const inputRowIndex = new Map<InputsRowKey, number>();
+  inputsRows.forEach((row, index) => {
+    if (row.key) inputRowIndex.set(row.key, index + 2);
+  });
+  const inputRef = (key: InputsRowKey) => `${INPUTS_SHEET}!$C$${inputRowIndex.get(key)}`;
+  const localInputRef = (key: InputsRowKey) => `$C$${inputRowIndex.get(key)}`;
+
+  const inputsSheet: XLSX.WorkSheet = {};
+  ["SN", "Parameter", "Value", "UOM", "Key"].forEach((header, col) => {
+    inputsSheet[XLSX.utils.encode_cell({ r: 0, c: col })] = toCell(header);
+  });
+  inputsRows.forEach((row, index) => {
+    const r = index + 1;
+    inputsSheet[XLSX.utils.encode_cell({ r, c: 0 })] = toCell(row.sn ?? "");
+    inputsSheet[XLSX.utils.encode_cell({ r, c: 1 })] = toCell(row.label);
+    inputsSheet[XLSX.utils.encode_cell({ r, c: 2 })] = row.formula
+      ? { t: "n", f: row.formula(localInputRef) }
+      : toCell(row.value);
+    inputsSheet[XLSX.utils.encode_cell({ r, c: 3 })] = toCell(row.uom ?? "");
+    inputsSheet[XLSX.utils.encode_cell({ r, c: 4 })] = toCell(row.key ?? "");
+  });
+  inputsSheet["!ref"] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: inputsRows.length, c: 4 }
+  });
+  inputsSheet["!cols"] = [{ wch: 6 }, { wch: 30 }, { wch: 22 }, { wch: 12 }, { wch: 24 }];
+
+  // Results sheet: SN | Parameter | Base | Rounded | Floored
+  const columns: ResultsColumn[] = ["base", "rounded", "floored"];
+  const resultsRowIndex = new Map<ScenarioParameterKey, number>();
+  resultsRows.forEach((row, index) => resultsRowIndex.set(row.key, index + 2));
+  const resultsRef = (key: ScenarioParameterKey, column: ResultsColumn) =>
+    `${String.fromCharCode(67 + columns.indexOf(column))}${resultsRowIndex.get(key)}`;
+
+  const resultsSheet: XLSX.WorkSheet = {};
+  ["SN", "Parameter", "Base (exact farms)", "Rounded up farms", "Floored farms"].forEach(
+    (header, col) => {
+      resultsSheet[XLSX.utils.encode_cell({ r: 0, c: col })] = toCell(header);
+    }
+  );
+  resultsRows.forEach((row, index) => {
+    const r = index + 1;
+    resultsSheet[XLSX.utils.encode_cell({ r, c: 0 })] = toCell(row.sn);
+    resultsSheet[XLSX.utils.encode_cell({ r, c: 1 })] = toCell(row.label);
+    columns.forEach((column, offset) => {
+      const value = cached[column][row.key];
+      resultsSheet[XLSX.utils.encode_cell({ r, c: 2 + offset })] = {
+        t: "n",
+        f: resultsFormula(row.key, column, inputRef, resultsRef),
+        ...(value != null && Number.isFinite(value) ? { v: value } : {})
+      };
+    });
+  });
+  resultsSheet["!ref"] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: resultsRows.length, c: 4 }
+  });
+  resultsSheet["!cols"] = [{ wch: 6 }, { wch: 30 }, { wch: 20 }, { wch: 20 }, { wch: 20 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, inputsSheet, INPUTS_SHEET);
+  XLSX.utils.book_append_sheet(workbook, resultsSheet, RESULTS_SHEET);
+  return workbook;
+}
+
+export function downloadScenarioWorkbook(scenario: BroilerScenario, fileName: string) {
+  XLSX.writeFile(buildScenarioWorkbook(scenario), fileName, { compression: true });
+}
+
+// Labels used by Calculator.xlsx (and by our own Inputs sheet), normalised to
+// lower case with single spaces. The first matching row wins, so the broiler
+// rows above the breeder section are picked.
+const labelAliases: Record<string, keyof BroilerInputs> = {
+  "broiler meat": "sn1TargetBroilerMeat",
+  "target broiler meat": "sn1TargetBroilerMeat",
+  "avg, wt": "sn2HarvestBirdAvgWeight",
+  "broiler avg, wt": "sn2HarvestBirdAvgWeight",
+  "broiler avg weight kg": "sn2HarvestBirdAvgWeight",
+  "harvest birds average weight": "sn2HarvestBirdAvgWeight",
+  "mort%": "sn4PlannedMortality",
+  "broiler mort%": "sn4PlannedMortality",
+  "planned mortality": "sn4PlannedMortality",
+  "cycle time": "sn6CycleTimeDays",
+  "broiler cycle time": "sn6CycleTimeDays",
+  "grow-out age at harvest": "growOutDays",
+  "cleanout days": "cleanoutDays",
+  "downtime buffer": "downtimeDays",
+  "farm capacity": "sn10FarmCapacity",
+  "broiler farm capacity": "sn10FarmCapacity",
+  "no. of houses": "sn11NumberOfHouses",
+  "broiler no. of houses": "sn11NumberOfHouses",
+  "house area": "sn12HouseArea",
+  "broiler house area": "sn12HouseArea",
+  "yield %": "yieldPercent",
+  "yield%": "yieldPercent"
+};
+
+function normalizeLabel(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const text = normalizeLabel(value);
+  if (text === "true" || text === "yes") return true;
+  if (text === "false" || text === "no") return false;
+  return null;
+}
+
+interface SheetMatch {
+  values: Partial<Record<string, unknown>>;
+  matched: number;
+}
+
+function readSheet(sheet: XLSX.WorkSheet): SheetMatch {
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true });
+  const values: Partial<Record<string, unknown>> = {};
+  let matched = 0;
+  rows.forEach((row) => {
+    if (!Array.isArray(row)) return;
+    const keyCell = typeof row[4] === "string" ? row[4].trim() : "";
+    const key = keyCell || labelAliases[normalizeLabel(row[1])];
+    if (!key || key in values) return;
+    values[key] = row[2];
+    if ((inputKeys as string[]).includes(key)) matched += 1;
+  });
+  return { values, matched };
+}
+
+export interface WorkbookImport {
+  scenario: BroilerScenario;
+  sheetName: string;
+  warnings: string[];
+}
+
+/**
+ * Reads broiler inputs from a workbook exported by this app or laid out like
+ * Calculator.xlsx (labels in column B, values in column C). Throws when no
+ * sheet contains recognisable broiler inputs.
+ */
+export function importScenarioFromWorkbook(
+  data: ArrayBuffer,
+  fallbackName: string,
+  base: BroilerScenario
+): WorkbookImport {
+  const workbook = XLSX.read(data, { type: "array" });
+  // SheetJS reads the active tab but does not declare it on WBView
+  const views = workbook.Workbook?.Views as { activeTab?: number | string }[] | undefined;
+  const activeIndex = Number(views?.[0]?.activeTab ?? 0) || 0;
+  const candidates = [
+    INPUTS_SHEET,
+    workbook.SheetNames[activeIndex],
+    ...workbook.SheetNames
+  ].filter((name, index, all) => name && workbook.Sheets[name] && all.indexOf(name) === index);
+
+  const found = candidates
+    .map((name) => ({ name, ...readSheet(workbook.Sheets[name]) }))
+    .find((sheet) => sheet.matched > 0);
+  if (!found) {
+    throw new Error("No sheet with broiler inputs (Broiler Meat, Avg weight, ...) was found.");
+  }
+
+  const warnings: string[] = [];
+  const v = found.values;
+  const inputs: BroilerInputs = { ...base.inputs };
+  inputKeys.forEach((key) => {
+    if (key in v) inputs[key] = toNumber(v[key]);
+  });
+  const config: BroilerConfig = { ...base.config };
+  const unitsMode = v.unitsMode as UnitsModeKey;
+  if (unitsModeKeys.includes(unitsMode)) config.unitsMode = unitsMode;
+  (
+    [
+      "useYield",
+      "useFullCyclesOnly",
+      "useLeapYearCycles",
+      "mortalityAsPercent",
+      "composeCycleTime"
+    ] as const
+  ).forEach((key) => {
+    const flag = toBoolean(v[key]);
+    if (flag != null) config[key] = flag;
+  });
+  if ("densityLimitKgPerM2" in v) {
+    config.densityLimitKgPerM2 = toNumber(v.densityLimitKgPerM2);
+  }
+  // Calculator.xlsx stores mortality as a fraction (e.g. 0.08) without a flag
+  if (!("mortalityAsPercent" in v) && inputs.sn4PlannedMortality != null) {
+    config.mortalityAsPercent = inputs.sn4PlannedMortality >= 1;
+  }
+  // Cycle time inputs not in use and inputs read from a growth curve are
+  // not expected
+  const missing = inputKeys.filter(
+    (key) => key !== "yieldPercent" && inputIsEntered(key, config) && !(key in v)
+  );
+  if (missing.length > 0) {
+    warnings.push(`Not found in "${found.name}": ${missing.join(", ")}.`);
+  }
+
+  const timeHorizon = v.timeHorizon as TimeHorizonKey;
+  const customDays = toNumber(v.customDays);
+  const name = typeof v.name === "string" && v.name.trim() ? v.name : fallbackName;
+
+  const scenario: BroilerScenario = {
+    ...base,
+    name,
+    description:
+      typeof v.description === "string" ? v.description || undefined : base.description,
+    timeHorizon: timeHorizonKeys.includes(timeHorizon) ? timeHorizon : base.timeHorizon,
+    customDays: customDays ?? undefined,
+    inputs,
+    config
+  };
+  warnings.push(...fieldErrorMessages(validateScenario(scenario)));
+
+  return { sheetName: found.name, warnings, scenario };
+}
@@ -0,0 +1,17 @@
+import type React from "react";
+import { Card } from "../components/Card";
+
+interface ComingSoonPageProps {
+  title: string;
+}
+
+export const ComingSoonPage: React.FC<ComingSoonPageProps> = ({ title }) => {
+  return (
+    <main className="main">
+      <h1 className="page-title">{title}</h1>
+      <Card title="Not available yet">
+        <p>This module is not part of the planning assistant yet.</p>
+      </Card>
+    </main>
+  );
+};
@@ -0,0 +1,23 @@
+import type React from "react";
+import { Card } from "../components/Card";
+import { buildHref } from "../router";
+import { CAPACITY_PLANNING_PATH } from "../routes";
+
+interface NotFoundPageProps {
+  path: string;
+}
+
+export const NotFoundPage: React.FC<NotFoundPageProps> = ({ path }) => {
+  return (
+    <main className="main">
+      <Card title="Page not found">
+        <p>
+          There is nothing at <span className="mono">{path}</span>.
+        </p>
+        <a className="btn btn-primary" href={buildHref(CAPACITY_PLANNING_PATH)}>
+          Go to Capacity Planning
+        </a>
+      </Card>
+    </main>
+  );
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { parseHash } from "./router";
+import { matchRoute } from "./routes";
+
+describe("parseHash", () => {
+  it("decodes path segments and reads the query", () => {
+    const route = parseHash("#/capacity-planning/scenarios/a%20b?share=x");
+    expect(route.segments).toEqual(["capacity-planning", "scenarios", "a b"]);
+    expect(route.path).toBe("/capacity-planning/scenarios/a%20b");
+    expect(route.query.get("share")).toBe("x");
+    expect(route.malformed).toBe(false);
+    expect(matchRoute(route.segments)).toEqual({
+      kind: "capacityPlanning",
+      scenarioId: "a b"
+    });
+  });
+
+  it("marks a broken escape as malformed instead of throwing", () => {
+    const route = parseHash("#/capacity-planning/scenarios/%E0%A4");
+    expect(route.malformed).toBe(true);
+    expect(route.segments).toEqual([]);
+    expect(route.path).toBe("/capacity-planning/scenarios/%E0%A4");
+  });
+});
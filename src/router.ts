@@ -0,0 +1,80 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+// Hash-based routing keeps deep links working on GitHub Pages, which has no
+// server-side fallback for unknown paths.
+
+export interface Route {
+  path: string;
+  segments: string[];
+  query: URLSearchParams;
+  // A segment held a broken escape such as "%E0%A4"; the route matches
+  // nothing and segments is left empty
+  malformed: boolean;
+}
+
+export function parseHash(hash: string): Route {
+  const raw = hash.replace(/^#/, "");
+  const [pathPart, queryPart = ""] = raw.split("?");
+  const query = new URLSearchParams(queryPart);
+  let segments: string[];
+  try {
+    segments = pathPart
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+  } catch (error) {
+    if (!(error instanceof URIError)) throw error;
+    return {
+      path: pathPart.startsWith("/") ? pathPart : `/${pathPart}`,
+      segments: [],
+      query,
+      malformed: true
+    };
+  }
+  return {
+    path: `/${segments.map((s) => encodeURIComponent(s)).join("/")}`,
+    segments,
+    query,
+    malformed: false
+  };
+}
+
+export function buildHref(
+  path: string,
+  query: Record<string, string | undefined> = {}
+): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value != null) params.set(key, value);
+  });
+  const search = params.toString();
+  return `#${path}${search ? `?${search}` : ""}`;
+}
+
+export function navigate(
+  path: string,
+  query: Record<string, string | undefined> = {},
+  options: { replace?: boolean } = {}
+) {
+  const href = buildHref(path, query);
+  if (href === window.location.hash) return;
+  if (options.replace) {
+    window.location.replace(href);
+  } else {
+    window.location.hash = href;
+  }
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+}
+
+export function useRoute(): Route {
+  const hash = useSyncExternalStore(
+    subscribe,
+    () => window.location.hash,
+    () => ""
+  );
+  return useMemo(() => parseHash(hash), [hash]);
+}
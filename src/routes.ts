@@ -0,0 +1,41 @@
+export interface ModuleRoute {
+  label: string;
+  path: string;
+}
+
+export const CAPACITY_PLANNING_PATH = "/capacity-planning";
+
+export const moduleRoutes: ModuleRoute[] = [
+  { label: "Overview", path: "/overview" },
+  { label: "Daily Prediction", path: "/daily-prediction" },
+  { label: "Generate Predictions", path: "/generate-predictions" },
+  { label: "Harvest Planning", path: "/harvest-planning" },
+  { label: "Capacity Planning", path: CAPACITY_PLANNING_PATH }
+];
+
+export function scenarioPath(id: string): string {
+  return `${CAPACITY_PLANNING_PATH}/scenarios/${encodeURIComponent(id)}`;
+}
+
+export type RouteMatch =
+  | { kind: "root" }
+  | { kind: "capacityPlanning"; scenarioId?: string }
+  | { kind: "module"; module: ModuleRoute }
+  | { kind: "notFound" };
+
+export function matchRoute(segments: string[]): RouteMatch {
+  if (segments.length === 0) return { kind: "root" };
+  const [first, ...rest] = segments;
+  const module = moduleRoutes.find((m) => m.path === `/${first}`);
+  if (!module) return { kind: "notFound" };
+
+  if (module.path === CAPACITY_PLANNING_PATH) {
+    if (rest.length === 0) return { kind: "capacityPlanning" };
+    if (rest.length === 2 && rest[0] === "scenarios") {
+      return { kind: "capacityPlanning", scenarioId: rest[1] };
+    }
+    return { kind: "notFound" };
+  }
+
+  return rest.length === 0 ? { kind: "module", module } : { kind: "notFound" };
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 
@@ -7,4 +8,7 @@ export default defineConfig({
   server: {
     port: 5173,
   },
+  test: {
+    globalSetup: ["scripts/mock-api-setup.ts"],
+  },
 });